@@ -0,0 +1,69 @@
+import { useMemo } from 'react';
+import { ChevronLeft, ChevronRight, Repeat } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useI18n } from '@/hooks/use-i18n';
+import type { AnnouncementHistoryState } from '@/lib/announcements/history';
+
+interface AnnouncementTranscriptProps {
+  state: AnnouncementHistoryState;
+  onPrevious: () => void;
+  onNext: () => void;
+  onRepeat: () => void;
+  onClear: () => void;
+}
+
+const AnnouncementTranscript = ({ state, onPrevious, onNext, onRepeat, onClear }: AnnouncementTranscriptProps) => {
+  const { t, locale } = useI18n();
+  const time = useMemo(() => new Intl.DateTimeFormat(locale, { timeStyle: 'medium' }), [locale]);
+  const empty = state.entries.length === 0;
+
+  return (
+    <Card className="p-4 w-full max-w-2xl space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="font-bold text-primary">{t('history.title')}</h3>
+        <div className="flex gap-2">
+          <Button onClick={onPrevious} variant="outline" size="sm" disabled={empty} aria-label={t('history.previousAria')}>
+            <ChevronLeft />
+            {t('history.previous')}
+          </Button>
+          <Button onClick={onRepeat} variant="outline" size="sm" disabled={empty} aria-label={t('history.repeatAria')}>
+            <Repeat />
+            {t('history.repeat')}
+          </Button>
+          <Button onClick={onNext} variant="outline" size="sm" disabled={empty} aria-label={t('history.nextAria')}>
+            {t('history.next')}
+            <ChevronRight />
+          </Button>
+          <Button onClick={onClear} variant="ghost" size="sm" disabled={empty}>
+            {t('history.clear')}
+          </Button>
+        </div>
+      </div>
+      {empty ? (
+        <p className="text-sm text-muted-foreground">{t('history.empty')}</p>
+      ) : (
+        <ScrollArea className="h-48 rounded-md border">
+          {/* Newest first, so the latest announcement is always in view */}
+          <ol className="p-2 space-y-1">
+            {[...state.entries].reverse().map(entry => (
+              <li
+                key={entry.id}
+                className={`flex gap-3 rounded px-2 py-1 text-sm ${entry.id === state.cursorId ? 'bg-primary/20' : ''}`}
+                aria-current={entry.id === state.cursorId ? 'true' : undefined}
+              >
+                <time dateTime={new Date(entry.timestamp).toISOString()} className="shrink-0 tabular-nums text-muted-foreground">
+                  {time.format(entry.timestamp)}
+                </time>
+                <span className={entry.priority === 'critical' ? 'font-semibold' : undefined}>{entry.text}</span>
+              </li>
+            ))}
+          </ol>
+        </ScrollArea>
+      )}
+    </Card>
+  );
+};
+
+export default AnnouncementTranscript;
@@ -0,0 +1,176 @@
+import { useMemo, useState } from 'react';
+import { BookOpen } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Textarea } from '@/components/ui/textarea';
+import { useI18n } from '@/hooks/use-i18n';
+import type { CatalogEdit } from '@/hooks/use-object-catalog';
+import type { CatalogEntry, CatalogOverrides, ObjectCatalog } from '@/lib/catalog/schema';
+
+interface CatalogEditorProps {
+  catalog: ObjectCatalog | null;
+  overrides: CatalogOverrides;
+  // The edits were written for an earlier version of the catalog and should be checked
+  staleOverrides: boolean;
+  onEdit: (label: string, edit: CatalogEdit) => void;
+  onReset: (label: string) => void;
+  onConfirmOverrides: () => void;
+}
+
+interface EntryFormProps {
+  entry: CatalogEntry;
+  customized: boolean;
+  onEdit: CatalogEditorProps['onEdit'];
+  onReset: CatalogEditorProps['onReset'];
+}
+
+// Keyed by label and customization in the parent, so switching entries or resetting starts a fresh draft
+const EntryForm = ({ entry, customized, onEdit, onReset }: EntryFormProps) => {
+  const { t } = useI18n();
+  const [name, setName] = useState(entry.name);
+  const [plural, setPlural] = useState(entry.plural);
+  const [short, setShort] = useState(entry.short);
+  const [long, setLong] = useState(entry.long);
+  const [synonyms, setSynonyms] = useState(entry.synonyms.join(', '));
+
+  const save = () => {
+    onEdit(entry.label, {
+      name: name.trim() || entry.name,
+      plural: plural.trim() || entry.plural,
+      short: short.trim() || entry.short,
+      long: long.trim() || entry.long,
+      synonyms: synonyms.split(',').map(synonym => synonym.trim()).filter(Boolean),
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <h4 className="text-lg font-bold capitalize">
+        {entry.name}
+        <span className="ml-2 text-sm font-normal text-muted-foreground">
+          {t(`category.${entry.category}`)}, {t(`hazardLevel.${entry.hazard}`)}
+        </span>
+      </h4>
+      <div className="space-y-2">
+        <Label htmlFor="catalog-name">{t('catalog.name')}</Label>
+        <Input id="catalog-name" value={name} onChange={(event) => setName(event.target.value)} />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="catalog-plural">{t('catalog.plural')}</Label>
+        <Input id="catalog-plural" value={plural} onChange={(event) => setPlural(event.target.value)} />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="catalog-short">{t('catalog.short')}</Label>
+        <Input id="catalog-short" value={short} onChange={(event) => setShort(event.target.value)} />
+        <p className="text-xs text-muted-foreground">{t('catalog.shortHint')}</p>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="catalog-long">{t('catalog.long')}</Label>
+        <Textarea id="catalog-long" rows={5} value={long} onChange={(event) => setLong(event.target.value)} />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="catalog-synonyms">{t('catalog.synonyms')}</Label>
+        <Input id="catalog-synonyms" value={synonyms} onChange={(event) => setSynonyms(event.target.value)} />
+      </div>
+      <div className="flex gap-2">
+        <Button onClick={save}>{t('catalog.save')}</Button>
+        <Button onClick={() => onReset(entry.label)} variant="outline" disabled={!customized}>
+          {t('catalog.reset')}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+const CatalogEditor = ({ catalog, overrides, staleOverrides, onEdit, onReset, onConfirmOverrides }: CatalogEditorProps) => {
+  const { t } = useI18n();
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState<string | null>(null);
+
+  const entries = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return (catalog?.entries ?? []).filter(entry =>
+      !needle
+      || entry.label.includes(needle)
+      || entry.name.toLowerCase().includes(needle)
+      || entry.short.toLowerCase().includes(needle)
+      || entry.synonyms.some(synonym => synonym.toLowerCase().includes(needle)),
+    );
+  }, [catalog, query]);
+
+  const selectedEntry = catalog?.entries.find(entry => entry.label === selected);
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="lg" aria-label={t('catalog.openAria')}>
+          <BookOpen />
+          {t('catalog.open')}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{t('catalog.title')}</DialogTitle>
+          <DialogDescription>{t('catalog.description')}</DialogDescription>
+        </DialogHeader>
+        {staleOverrides && (
+          <div role="status" className="flex items-center justify-between gap-4 rounded-md border border-primary p-3 text-sm">
+            <p>{t('catalog.staleOverrides')}</p>
+            <Button onClick={onConfirmOverrides} variant="outline" size="sm">
+              {t('catalog.confirmOverrides')}
+            </Button>
+          </div>
+        )}
+        <div className="grid gap-4 md:grid-cols-[14rem_1fr]">
+          <div className="space-y-2">
+            <Input
+              placeholder={t('catalog.search')}
+              value={query}
+              onChange={(event) => setQuery(event.target.value)}
+              aria-label={t('catalog.search')}
+            />
+            <ScrollArea className="h-80 rounded-md border">
+              <ul className="p-1">
+                {entries.map(entry => (
+                  <li key={entry.label}>
+                    <Button
+                      onClick={() => setSelected(entry.label)}
+                      variant={entry.label === selected ? 'secondary' : 'ghost'}
+                      className="w-full justify-start capitalize"
+                    >
+                      {entry.name}
+                      {overrides[entry.label] && <span className="ml-auto text-xs text-primary">{t('catalog.edited')}</span>}
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            </ScrollArea>
+          </div>
+          {selectedEntry ? (
+            <EntryForm
+              key={`${selectedEntry.label}-${!!overrides[selectedEntry.label]}`}
+              entry={selectedEntry}
+              customized={!!overrides[selectedEntry.label]}
+              onEdit={onEdit}
+              onReset={onReset}
+            />
+          ) : (
+            <p className="text-muted-foreground">{t('catalog.choose')}</p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CatalogEditor;
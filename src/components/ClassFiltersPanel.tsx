@@ -0,0 +1,132 @@
+import { useMemo, useState } from 'react';
+import { Filter } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useI18n } from '@/hooks/use-i18n';
+import type { ObjectCatalog } from '@/lib/catalog/schema';
+import type { Preferences } from '@/lib/settings/schema';
+
+type ListKey = 'watchlist' | 'includeClasses' | 'excludeClasses';
+
+interface ClassFiltersPanelProps {
+  catalog: ObjectCatalog | null;
+  preferences: Pick<Preferences, ListKey | 'watchlistActive'>;
+  onChange: (update: Partial<Preferences>) => void;
+}
+
+interface ClassChecklistProps {
+  id: ListKey;
+  catalog: ObjectCatalog | null;
+  selected: string[];
+  onChange: (labels: string[]) => void;
+}
+
+// Searchable list of every catalog class with a checkbox each
+const ClassChecklist = ({ id, catalog, selected, onChange }: ClassChecklistProps) => {
+  const { t } = useI18n();
+  const [query, setQuery] = useState('');
+
+  const entries = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return (catalog?.entries ?? []).filter(entry =>
+      !needle || entry.label.includes(needle) || entry.name.toLowerCase().includes(needle),
+    );
+  }, [catalog, query]);
+
+  const toggle = (label: string, checked: boolean) => {
+    onChange(checked ? [...selected, label] : selected.filter(item => item !== label));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Input
+          placeholder={t('filters.search')}
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          aria-label={t('filters.search')}
+        />
+        <Button onClick={() => onChange([])} variant="outline" disabled={selected.length === 0}>
+          {t('filters.clear')}
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">{t('filters.selected', { count: selected.length })}</p>
+      <ScrollArea className="h-64 rounded-md border">
+        <ul className="p-2 grid grid-cols-2 gap-2">
+          {entries.map(entry => (
+            <li key={entry.label} className="flex items-center gap-2">
+              <Checkbox
+                id={`${id}-${entry.label}`}
+                checked={selected.includes(entry.label)}
+                onCheckedChange={(checked) => toggle(entry.label, checked === true)}
+              />
+              <Label htmlFor={`${id}-${entry.label}`} className="capitalize font-normal">{entry.name}</Label>
+            </li>
+          ))}
+        </ul>
+      </ScrollArea>
+    </div>
+  );
+};
+
+const ClassFiltersPanel = ({ catalog, preferences, onChange }: ClassFiltersPanelProps) => {
+  const { t } = useI18n();
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant={preferences.watchlistActive ? 'default' : 'outline'} size="lg" aria-label={t('filters.openAria')}>
+          <Filter />
+          {t('filters.open')}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t('filters.title')}</DialogTitle>
+          <DialogDescription>{t('filters.description')}</DialogDescription>
+        </DialogHeader>
+        <div className="flex items-center justify-between gap-4">
+          <Label htmlFor="watchlist-active" className="font-bold">{t('filters.watchlistActive')}</Label>
+          <Switch
+            id="watchlist-active"
+            checked={preferences.watchlistActive}
+            onCheckedChange={(watchlistActive) => onChange({ watchlistActive })}
+          />
+        </div>
+        <Tabs defaultValue="watchlist">
+          <TabsList className="grid grid-cols-3">
+            <TabsTrigger value="watchlist">{t('filters.watchlist')}</TabsTrigger>
+            <TabsTrigger value="includeClasses">{t('filters.include')}</TabsTrigger>
+            <TabsTrigger value="excludeClasses">{t('filters.exclude')}</TabsTrigger>
+          </TabsList>
+          {(['watchlist', 'includeClasses', 'excludeClasses'] as const).map(key => (
+            <TabsContent key={key} value={key} className="space-y-2">
+              <p className="text-sm text-muted-foreground">{t(`filters.${key}Hint`)}</p>
+              <ClassChecklist
+                id={key}
+                catalog={catalog}
+                selected={preferences[key]}
+                onChange={(labels) => onChange({ [key]: labels })}
+              />
+            </TabsContent>
+          ))}
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ClassFiltersPanel;
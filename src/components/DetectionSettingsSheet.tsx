@@ -0,0 +1,126 @@
+import { useMemo, useState } from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@/components/ui/sheet';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { useI18n } from '@/hooks/use-i18n';
+import type { ObjectCatalog } from '@/lib/catalog/schema';
+import { CONFIDENCE_RANGE, type ClassThresholds } from '@/lib/detection/thresholds';
+import type { Preferences } from '@/lib/settings/schema';
+
+interface DetectionSettingsSheetProps {
+  catalog: ObjectCatalog | null;
+  confidence: number;
+  classThresholds: ClassThresholds;
+  onChange: (update: Partial<Preferences>) => void;
+}
+
+const percent = (score: number) => `${Math.round(score * 100)}%`;
+
+const DetectionSettingsSheet = ({ catalog, confidence, classThresholds, onChange }: DetectionSettingsSheetProps) => {
+  const { t } = useI18n();
+  const [query, setQuery] = useState('');
+
+  const entries = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return (catalog?.entries ?? []).filter(entry =>
+      !needle || entry.label.includes(needle) || entry.name.toLowerCase().includes(needle),
+    );
+  }, [catalog, query]);
+
+  const setClassThreshold = (label: string, threshold: number | null) => {
+    const { [label]: _previous, ...rest } = classThresholds;
+    onChange({ classThresholds: threshold === null ? rest : { ...rest, [label]: threshold } });
+  };
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="lg" aria-label={t('thresholds.openAria')}>
+          <SlidersHorizontal />
+          {t('thresholds.open')}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-md flex flex-col">
+        <SheetHeader>
+          <SheetTitle>{t('thresholds.title')}</SheetTitle>
+          <SheetDescription>{t('thresholds.description')}</SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm">
+            <label id="confidence-label" className="font-bold">{t('thresholds.global')}</label>
+            <span className="text-muted-foreground">{percent(confidence)}</span>
+          </div>
+          <Slider
+            value={[confidence]}
+            onValueChange={([value]) => onChange({ confidence: value })}
+            min={CONFIDENCE_RANGE.min}
+            max={CONFIDENCE_RANGE.max}
+            step={0.05}
+            aria-labelledby="confidence-label"
+          />
+          <p className="text-xs text-muted-foreground">{t('thresholds.globalHint')}</p>
+        </div>
+
+        <div className="flex-1 min-h-0 space-y-2 flex flex-col">
+          <div className="flex justify-between text-sm">
+            <span className="font-bold">{t('thresholds.perClass')}</span>
+            <span className="text-muted-foreground">
+              {t('thresholds.customCount', { count: Object.keys(classThresholds).length })}
+            </span>
+          </div>
+          <Input
+            placeholder={t('thresholds.search')}
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+            aria-label={t('thresholds.search')}
+          />
+          <ScrollArea className="flex-1 rounded-md border">
+            <ul className="p-2 space-y-3">
+              {entries.map(entry => {
+                const threshold = classThresholds[entry.label];
+                const custom = threshold !== undefined;
+                return (
+                  <li key={entry.label} className="space-y-2">
+                    <div className="flex items-center justify-between gap-2 text-sm">
+                      <span className="capitalize">{entry.name}</span>
+                      <span className="ml-auto text-muted-foreground">{percent(threshold ?? confidence)}</span>
+                      <Switch
+                        checked={custom}
+                        onCheckedChange={(checked) => setClassThreshold(entry.label, checked ? confidence : null)}
+                        aria-label={t('thresholds.customAria', { name: entry.name })}
+                      />
+                    </div>
+                    {custom && (
+                      <Slider
+                        value={[threshold]}
+                        onValueChange={([value]) => setClassThreshold(entry.label, value)}
+                        min={CONFIDENCE_RANGE.min}
+                        max={CONFIDENCE_RANGE.max}
+                        step={0.05}
+                        aria-label={t('thresholds.classAria', { name: entry.name })}
+                      />
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </ScrollArea>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default DetectionSettingsSheet;
@@ -0,0 +1,28 @@
+import { useCallback, useEffect, useMemo, useState, type ReactNode } from 'react';
+import { I18nContext, type I18nContextValue } from '@/lib/i18n/context';
+import { DEFAULT_LOCALE, LOCALES, detectLocale, saveLocale, type Locale } from '@/lib/i18n/locales';
+import { createTranslator } from '@/lib/i18n/translator';
+
+const I18nProvider = ({ children }: { children: ReactNode }) => {
+  const [locale, setLocaleState] = useState<Locale>(detectLocale);
+
+  const setLocale = useCallback((next: Locale) => {
+    saveLocale(next);
+    setLocaleState(next);
+  }, []);
+
+  // Screen readers pick their pronunciation from the document language
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const value = useMemo<I18nContextValue>(() => ({
+    ...createTranslator(locale, LOCALES[locale].messages, LOCALES[DEFAULT_LOCALE].messages),
+    locale,
+    setLocale,
+  }), [locale, setLocale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export default I18nProvider;
@@ -0,0 +1,31 @@
+import { useI18n } from '@/hooks/use-i18n';
+import type { LiveMessage } from '@/hooks/use-live-announcer';
+
+interface LiveAnnouncerProps {
+  messages: LiveMessage[];
+}
+
+// Visually hidden live regions that hand every announcement to screen readers and braille displays.
+// Routine messages go to a polite log; critical ones (hazards, direct replies) interrupt.
+const LiveAnnouncer = ({ messages }: LiveAnnouncerProps) => {
+  const { t } = useI18n();
+  const critical = messages.filter(message => message.priority === 'critical').slice(-1);
+  const routine = messages.filter(message => message.priority !== 'critical');
+
+  return (
+    <div className="sr-only">
+      <div role="log" aria-live="polite" aria-label={t('live.logLabel')}>
+        {routine.map(message => (
+          <p key={message.id}>{message.text}</p>
+        ))}
+      </div>
+      <div role="alert" aria-live="assertive" aria-atomic="true" aria-label={t('live.alertLabel')}>
+        {critical.map(message => (
+          <p key={message.id}>{message.text}</p>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default LiveAnnouncer;
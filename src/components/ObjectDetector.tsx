@@ -1,105 +1,289 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
-import { pipeline } from '@huggingface/transformers';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
-import { Camera, CameraOff, Volume2, VolumeX, Eye, Settings } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import SpeechQueuePanel from '@/components/SpeechQueuePanel';
+import CatalogEditor from '@/components/CatalogEditor';
+import SpeechSettingsPanel from '@/components/SpeechSettingsPanel';
+import AnnouncementTranscript from '@/components/AnnouncementTranscript';
+import LiveAnnouncer from '@/components/LiveAnnouncer';
+import ProfilesPanel from '@/components/ProfilesPanel';
+import DetectionSettingsSheet from '@/components/DetectionSettingsSheet';
+import ClassFiltersPanel from '@/components/ClassFiltersPanel';
+import { Camera, CameraOff, Volume2, VolumeX, Eye, Settings, Compass, RotateCcw, Languages, ListChecks, Accessibility, Radar } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useSpeechQueue } from '@/hooks/use-speech-queue';
+import { useObjectCatalog } from '@/hooks/use-object-catalog';
+import { useI18n } from '@/hooks/use-i18n';
+import { useSpeechVoices } from '@/hooks/use-speech-voices';
+import { useSpeechSettings } from '@/hooks/use-speech-settings';
+import { useAnnouncementHistory } from '@/hooks/use-announcement-history';
+import { useLiveAnnouncer } from '@/hooks/use-live-announcer';
+import { useEarcons } from '@/hooks/use-earcons';
+import { useSettingsStore } from '@/hooks/use-settings-store';
+import { LOCALES, type Locale } from '@/lib/i18n/locales';
+import { joinList } from '@/lib/i18n/translator';
+import { resolveBackendConfig } from '@/lib/detection/config';
+import { createWorkerBackend } from '@/lib/detection/worker-backend';
+import {
+  createFrameScheduler,
+  MAX_TARGET_FPS,
+  MIN_TARGET_FPS,
+  type FrameScheduler,
+  type SchedulerStats,
+} from '@/lib/detection/scheduler';
+import { filterByClass, selectWatched } from '@/lib/detection/class-filter';
+import {
+  canonicalizeLabels,
+  createClassKey,
+  DEFAULT_POST_PROCESS,
+  postProcess,
+  type PostProcessConfig,
+} from '@/lib/detection/postprocess';
+import { filterByConfidence } from '@/lib/detection/thresholds';
+import { createTracker, type Track, type TrackerOptions } from '@/lib/detection/tracker';
+import {
+  describePosition,
+  getSpatialPosition,
+  HORIZONTAL_FOV_RANGE,
+  type FrameSize,
+} from '@/lib/detection/spatial';
+import { compareByDistance, describeDistance, estimateDistance } from '@/lib/detection/distance';
+import { createHazardMonitor, describeHazard } from '@/lib/detection/hazards';
+import {
+  createAnnouncementPolicy,
+  DEFAULT_ANNOUNCEMENT_POLICY,
+  type AnnouncementPolicyConfig,
+} from '@/lib/announcements/policy';
+import {
+  formatAnnouncement,
+  nextVerbosity,
+  VERBOSITY_LEVELS,
+  type AnnouncementItem,
+  type Verbosity,
+} from '@/lib/announcements/format';
+import { formatInventory } from '@/lib/announcements/summary';
+import type { HistoryEntry } from '@/lib/announcements/history';
+import type { Profile } from '@/lib/settings/schema';
+import { getActiveProfile, profileName } from '@/lib/settings/store';
+import type { SpeechItem, SpeechPriority } from '@/lib/speech/queue';
+import { alertProsody } from '@/lib/speech/settings';
+import { pickVoice } from '@/lib/speech/voices';
+import type { DetectorBackend } from '@/lib/detection/types';
+import { createSynonymTable } from '@/lib/catalog/catalog';
+import type { HazardLevel } from '@/lib/catalog/schema';
 
-interface Detection {
-  label: string;
-  score: number;
-  box: {
-    xmin: number;
-    ymin: number;
-    xmax: number;
-    ymax: number;
-  };
+interface ObjectDetectorProps {
+  // Builds the detector backend; defaults to the preset selected by VITE_DETECTOR_* env vars
+  createBackend?: () => DetectorBackend;
+  // Cooldowns and rate limits for spoken announcements
+  announcementPolicy?: AnnouncementPolicyConfig;
+  // How many frames an object must be seen in before it is announced, how long it may be missed
+  // before it is gone (overall and per class), and how much its box is smoothed
+  tracking?: TrackerOptions;
+  // Duplicate suppression, box merging and label normalization applied to raw detector output
+  postProcessing?: PostProcessConfig;
 }
 
-const ObjectDetector = () => {
+// Overlay colours by hazard level, so danger stands out even for users with some sight
+const HAZARD_COLOURS: Record<HazardLevel, { stroke: string; fill: string; text: string }> = {
+  info: { stroke: '#00ff00', fill: 'rgba(0, 255, 0, 0.8)', text: '#000000' },
+  caution: { stroke: '#ffb300', fill: 'rgba(255, 179, 0, 0.85)', text: '#000000' },
+  danger: { stroke: '#ff1744', fill: 'rgba(255, 23, 68, 0.9)', text: '#ffffff' },
+};
+
+interface SpeakOptions {
+  priority?: SpeechPriority;
+  key?: string;
+  // Kept out of the history, for replays from it
+  record?: boolean;
+  // Danger-level: alert voice and earcon
+  alert?: boolean;
+  // Where the alert earcon sounds, from -1 (left) to 1 (right)
+  pan?: number;
+}
+
+// Controls that Space activates themselves; with one of these focused, Space is not a shortcut
+const SPACE_CONTROLS = 'button, a[href], [role="checkbox"], [role="switch"], [role="slider"], [role="tab"], [role="radio"], [role="option"]';
+
+// Positional earcons played for one announcement, spaced so each can be placed
+const MAX_EARCONS = 4;
+const EARCON_SPACING_S = 0.18;
+
+const defaultCreateBackend = () => createWorkerBackend(resolveBackendConfig());
+
+const ObjectDetector = ({
+  createBackend = defaultCreateBackend,
+  announcementPolicy = DEFAULT_ANNOUNCEMENT_POLICY,
+  tracking,
+  postProcessing = DEFAULT_POST_PROCESS,
+}: ObjectDetectorProps) => {
   const [isDetecting, setIsDetecting] = useState(false);
-  const [isSpeaking, setIsSpeaking] = useState(false);
-  const [detections, setDetections] = useState<Detection[]>([]);
-  const [pipeline_, setPipeline] = useState<any>(null);
+  const [detections, setDetections] = useState<Track[]>([]);
+  const [backend, setBackend] = useState<DetectorBackend | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const [speechEnabled, setSpeechEnabled] = useState(true);
-  const [confidence, setConfidence] = useState(0.5);
-  const [isPaused, setIsPaused] = useState(false);
-  const [showDetections, setShowDetections] = useState(true);
+  const [schedulerStats, setSchedulerStats] = useState<SchedulerStats | null>(null);
   
   const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
   const overlayCanvasRef = useRef<HTMLCanvasElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
-  const lastSpokenRef = useRef<string>('');
+  const schedulerRef = useRef<FrameScheduler | null>(null);
   
   const { toast } = useToast();
+  const { t, locale, setLocale } = useI18n();
+
+  // Preferences belong to the active profile and are saved as soon as they change
+  const { store: settingsStore, state: settingsState, preferences } = useSettingsStore();
+  const {
+    speechEnabled,
+    earconsEnabled,
+    confidence,
+    classThresholds,
+    includeClasses,
+    excludeClasses,
+    watchlist,
+    watchlistActive,
+    showDetections,
+    targetFps,
+    directionStyle,
+    verbosity,
+  } = preferences;
+  const updatePreferences = settingsStore.updatePreferences;
+
+  // Speak in the interface language, with the user's chosen voice or else the closest installed one
+  const voices = useSpeechVoices();
+  const {
+    settings: speechSettings,
+    updateSettings: updateSpeechSettings,
+    resetSettings: resetSpeechSettings,
+  } = useSpeechSettings();
+  const { horizontalFov } = speechSettings;
+  const speechLang = LOCALES[locale].speechLang;
+  const chosenVoiceURI = speechSettings.voices[locale];
+  const voice = useMemo(
+    () => voices.find(candidate => candidate.voiceURI === chosenVoiceURI) ?? pickVoice(voices, speechLang),
+    [voices, chosenVoiceURI, speechLang],
+  );
+  const { rate, pitch, volume } = speechSettings;
+  const configureUtterance = useCallback((utterance: SpeechSynthesisUtterance, item: SpeechItem) => {
+    const prosody = item.alert ? alertProsody({ rate, pitch }) : { rate, pitch };
+    utterance.lang = voice?.lang ?? speechLang;
+    utterance.voice = voice;
+    utterance.rate = prosody.rate;
+    utterance.pitch = prosody.pitch;
+    utterance.volume = volume;
+  }, [speechLang, voice, rate, pitch, volume]);
+
+  const { queue: speechQueue, state: speechState } = useSpeechQueue(configureUtterance);
+  const isSpeaking = speechState.current !== null;
+  const {
+    catalog,
+    overrides: catalogOverrides,
+    staleOverrides,
+    lookup: lookupObject,
+    editEntry,
+    resetEntry,
+    confirmOverrides,
+  } = useObjectCatalog(locale);
+  // Other models' names for a class (e.g. "tvmonitor") are folded into the catalog label
+  const postProcessConfig = useMemo(
+    () => ({ ...postProcessing, synonyms: { ...createSynonymTable(catalog), ...postProcessing.synonyms } }),
+    [postProcessing, catalog],
+  );
+
+  const { history, state: historyState } = useAnnouncementHistory();
+  const { messages: liveMessages, announce } = useLiveAnnouncer();
+  const earcons = useEarcons();
+  const { screenReaderMode } = speechSettings;
+
+  // Text-to-speech: queued by priority; critical messages cut off anything less urgent, and a
+  // newer message with the same key replaces a stale one still waiting. Everything said is kept
+  // in the history unless it is itself a replay from there, and mirrored to the live regions.
+  // In screen reader mode the live regions are the only output; alert earcons still play.
+  const speak = useCallback((
+    text: string,
+    { priority = 'normal', key, record = true, alert = false, pan }: SpeakOptions = {},
+  ) => {
+    if (!speechEnabled) return;
+    if (record) history.add(text, priority);
+    announce(text, priority);
+    if (!screenReaderMode) speechQueue.enqueue({ text, priority, key, alert });
+    // After the speech is queued, so a sound that fails cannot hold up a warning
+    if (alert) earcons.play('danger', { pan });
+  }, [speechEnabled, screenReaderMode, earcons, speechQueue, history, announce]);
+
+  // Switching on silences anything already queued; the confirmation is voiced only when switching off
+  const toggleScreenReaderMode = useCallback(() => {
+    const enabled = !screenReaderMode;
+    updateSpeechSettings({ screenReaderMode: enabled });
+    if (!speechEnabled) return;
+    const text = enabled ? t('speech.srModeOn') : t('speech.srModeOff');
+    history.add(text, 'critical');
+    announce(text, 'critical');
+    if (enabled) {
+      speechQueue.cancelAll();
+    } else {
+      speechQueue.enqueue({ text, priority: 'critical', key: 'screen-reader' });
+    }
+  }, [screenReaderMode, speechEnabled, updateSpeechSettings, speechQueue, history, announce, t]);
+
+  // Replays a history entry without adding it again
+  const replay = useCallback((entry: HistoryEntry | null) => {
+    speak(entry ? entry.text : t('history.empty'), { priority: 'critical', key: 'history', record: false });
+  }, [speak, t]);
+
+  useEffect(() => {
+    speechQueue.setEnabled(speechEnabled);
+  }, [speechEnabled, speechQueue]);
 
   // Initialize the AI model
   const initializePipeline = useCallback(async () => {
     setIsLoading(true);
+    const detector = createBackend();
     try {
       toast({
-        title: "Loading AI Model",
-        description: "Initializing object detection model...",
+        title: t('toast.modelLoading.title'),
+        description: t('toast.modelLoading.description', { name: detector.capabilities.name }),
       });
       
-      const detector = await pipeline('object-detection', 'Xenova/detr-resnet-50', {
-        device: 'webgpu',
-        dtype: 'fp16',
-      });
+      await detector.load();
       
-      setPipeline(detector);
+      setBackend(detector);
+      const mode = detector.capabilities.mode && t(`mode.${detector.capabilities.mode}`);
       toast({
-        title: "AI Model Ready",
-        description: "Object detection is now available!",
+        title: t('toast.modelReady.title'),
+        description: mode
+          ? t('toast.modelReady.descriptionWithMode', { mode })
+          : t('toast.modelReady.description'),
         variant: "default",
       });
       
-      // Announce model ready
+      // Announce model ready, including which device/precision the fallback settled on
       if (speechEnabled) {
-        speak("BlindVision AI model is ready. You can now start object detection.");
+        speak(mode ? t('speech.modelReadyWithMode', { mode }) : t('speech.modelReady'));
       }
     } catch (error) {
       console.error('Error loading model:', error);
+      detector.dispose();
       toast({
-        title: "Model Loading Failed", 
-        description: "Failed to load AI model. Please check your connection.",
+        title: t('toast.modelFailed.title'),
+        description: t('toast.modelFailed.description'),
         variant: "destructive",
       });
+      speak(t('speech.modelFailed'), { priority: 'critical' });
     } finally {
       setIsLoading(false);
     }
-  }, [speechEnabled, toast]);
-
-  // Text-to-speech function
-  const speak = useCallback((text: string) => {
-    if (!speechEnabled || isSpeaking) return;
-    
-    // Avoid repeating the same announcement
-    if (text === lastSpokenRef.current) return;
-    lastSpokenRef.current = text;
-    
-    setIsSpeaking(true);
-    const utterance = new SpeechSynthesisUtterance(text);
-    utterance.rate = 0.9;
-    utterance.pitch = 1.1;
-    utterance.volume = 1;
-    
-    utterance.onend = () => {
-      setIsSpeaking(false);
-      setTimeout(() => {
-        lastSpokenRef.current = '';
-      }, 2000);
-    };
-    
-    utterance.onerror = () => {
-      setIsSpeaking(false);
+  }, [createBackend, speechEnabled, speak, toast, t]);
+
+  // Release the model when the backend is replaced or the component unmounts
+  useEffect(() => {
+    return () => {
+      backend?.dispose();
     };
-    
-    window.speechSynthesis.speak(utterance);
-  }, [speechEnabled, isSpeaking]);
+  }, [backend]);
 
   // Start camera
   const startCamera = useCallback(async () => {
@@ -118,20 +302,20 @@ const ObjectDetector = () => {
       }
       
       toast({
-        title: "Camera Started",
-        description: "Video feed is now active",
+        title: t('toast.cameraStarted.title'),
+        description: t('toast.cameraStarted.description'),
       });
       
-      speak("Camera started. You can now begin object detection.");
+      speak(t('speech.cameraStarted'));
     } catch (error) {
       toast({
-        title: "Camera Error",
-        description: "Unable to access camera. Please check permissions.",
+        title: t('toast.cameraError.title'),
+        description: t('toast.cameraError.description'),
         variant: "destructive",
       });
-      speak("Unable to access camera. Please check camera permissions.");
+      speak(t('speech.cameraError'), { priority: 'critical' });
     }
-  }, [toast, speak]);
+  }, [toast, speak, t]);
 
   // Stop camera
   const stopCamera = useCallback(() => {
@@ -143,105 +327,61 @@ const ObjectDetector = () => {
       videoRef.current.srcObject = null;
     }
     toast({
-      title: "Camera Stopped",
-      description: "Video feed has been stopped",
+      title: t('toast.cameraStopped.title'),
+      description: t('toast.cameraStopped.description'),
     });
-    speak("Camera stopped.");
-  }, [toast, speak]);
-
-  // Object descriptions for detailed feedback
-  const getObjectDescription = (label: string): string => {
-    const descriptions: { [key: string]: string } = {
-      'person': 'A person is detected in your view. This is a human being who may be walking, standing, or moving around in your immediate area.',
-      'bicycle': 'A bicycle is detected nearby. This is a two-wheeled pedal-powered vehicle used for transportation, exercise, or recreation.',
-      'car': 'A car is present in the scene. This is a four-wheeled motor vehicle designed for passenger transportation on roads.',
-      'motorcycle': 'A motorcycle is visible. This is a two-wheeled motor vehicle that provides faster transportation than bicycles but requires more skill to operate.',
-      'airplane': 'An airplane is visible in the sky above. This is a powered aircraft with wings that flies through the air for transportation.',
-      'bus': 'A bus is nearby. This is a large motor vehicle designed to carry many passengers, often used for public transportation.',
-      'train': 'A train is detected. This is a series of connected rail cars that travel on tracks, used for transporting passengers or cargo over long distances.',
-      'truck': 'A truck is present. This is a large motor vehicle designed primarily for transporting goods and materials rather than passengers.',
-      'boat': 'A boat is visible on the water. This is a watercraft used for traveling across rivers, lakes, or oceans for transportation or recreation.',
-      'traffic light': 'A traffic light is ahead of you. This is a signaling device that uses colored lights - red, yellow, and green - to control traffic flow at intersections.',
-      'fire hydrant': 'A fire hydrant is located nearby. This is a water supply point that firefighters connect their hoses to when fighting fires.',
-      'stop sign': 'A stop sign is visible. This is a red, octagonal traffic sign that requires all vehicles to come to a complete stop before proceeding.',
-      'parking meter': 'A parking meter is present. This is a device that collects payment for parking in designated spaces, usually found on city streets.',
-      'bench': 'A bench is in your vicinity. This is outdoor seating furniture, typically made of wood or metal, found in parks, bus stops, or public spaces.',
-      'bird': 'A bird is detected in the area. This is a feathered animal with wings that can fly, and it is part of the local wildlife around you.',
-      'cat': 'A cat is present nearby. This is a small, domesticated feline animal often kept as a pet, known for its independence and agility.',
-      'dog': 'A dog is detected in the area. This is a domesticated canine animal, commonly kept as a companion pet and known for loyalty to humans.',
-      'horse': 'A horse is visible. This is a large, four-legged mammal historically used for riding, pulling carts, and farm work.',
-      'sheep': 'A sheep is in the scene. This is a woolly farm animal raised primarily for its wool, meat, and sometimes milk.',
-      'cow': 'A cow is present. This is a large farm animal, a bovine mammal raised for milk production, meat, and leather.',
-      'elephant': 'An elephant is detected. This is the largest land mammal, with a long trunk, large ears, and tusks, native to Africa and Asia.',
-      'bear': 'A bear is visible - exercise caution. This is a large, powerful mammal that can be dangerous. Keep your distance and avoid sudden movements.',
-      'zebra': 'A zebra is in view. This is a horse-like African mammal with distinctive black and white stripes covering its entire body.',
-      'giraffe': 'A giraffe is detected. This is the tallest mammal in the world, with an extremely long neck and legs, native to African savannas.',
-      'backpack': 'A backpack is nearby. This is a bag with shoulder straps designed to be carried on someone\'s back, used for carrying personal items, books, or hiking gear.',
-      'umbrella': 'An umbrella is present. This is a portable shelter consisting of a circular canopy on a folding frame, used for protection from rain or sun.',
-      'handbag': 'A handbag is visible. This is a bag, typically carried by hand or over the shoulder, used for carrying personal items like wallets, keys, and phones.',
-      'tie': 'A necktie is detected. This is a formal accessory worn around the neck, typically by men with dress shirts for business or formal occasions.',
-      'suitcase': 'A suitcase is present. This is a rectangular traveling case with a handle, used for packing clothes and personal items when traveling.',
-      'frisbee': 'A frisbee is nearby. This is a disc-shaped toy that is thrown and caught for recreation, often used in parks or beaches.',
-      'skis': 'Skis are visible. These are long, narrow boards attached to boots for gliding over snow, used in winter sports and recreation.',
-      'snowboard': 'A snowboard is detected. This is a wide board used for descending snow-covered slopes, similar to surfing but on snow.',
-      'sports ball': 'A sports ball is in view. This is a round object used in various sports and games, could be a basketball, soccer ball, or similar.',
-      'kite': 'A kite is visible. This is a lightweight object designed to fly in the wind, often diamond-shaped and controlled by a string from the ground.',
-      'baseball bat': 'A baseball bat is nearby. This is a wooden or metal club used in baseball to hit the ball, typically about three feet long.',
-      'baseball glove': 'A baseball glove is present. This is a leather mitt worn on the hand to catch and field baseballs during the game.',
-      'skateboard': 'A skateboard is detected. This is a board with four wheels used for transportation and performing tricks, popular among youth.',
-      'surfboard': 'A surfboard is visible. This is a long board used for riding ocean waves, a key piece of equipment in the sport of surfing.',
-      'tennis racket': 'A tennis racket is nearby. This is a stringed paddle used to hit tennis balls, consisting of a handle and an oval head with strings.',
-      'bottle': 'A bottle is present. This is a container, typically made of glass or plastic, used for storing and drinking liquids like water or beverages.',
-      'wine glass': 'A wine glass is visible. This is a stemmed glass specifically designed for drinking wine, with a bowl, stem, and base.',
-      'cup': 'A cup is detected. This is a small, open container used for drinking hot or cold beverages like coffee, tea, or water.',
-      'fork': 'A fork is nearby. This is an eating utensil with two or more prongs, used for picking up and eating solid food.',
-      'knife': 'A knife is present. This is a cutting tool with a sharp blade, used for cutting food during meals or food preparation.',
-      'spoon': 'A spoon is visible. This is an eating utensil with a shallow bowl shape, used for eating liquids, soups, or soft foods.',
-      'bowl': 'A bowl is detected. This is a round, deep container used for holding and eating food, especially soups, cereals, or salads.',
-      'banana': 'A banana is present. This is a yellow, curved tropical fruit that is sweet, nutritious, and high in potassium and energy.',
-      'apple': 'An apple is visible. This is a round fruit, typically red or green, that is sweet, crunchy, and rich in vitamins and fiber.',
-      'sandwich': 'A sandwich is nearby. This is a food item consisting of ingredients like meat, cheese, or vegetables placed between slices of bread.',
-      'orange': 'An orange is detected. This is a round, orange-colored citrus fruit that is juicy, sweet, and high in vitamin C.',
-      'broccoli': 'Broccoli is in view. This is a green vegetable with a tree-like appearance, known for being very nutritious and high in vitamins.',
-      'carrot': 'A carrot is present. This is an orange root vegetable that is long and tapered, sweet in taste and rich in beta-carotene.',
-      'hot dog': 'A hot dog is visible. This is a cooked sausage typically served in a split bun with various condiments like mustard or ketchup.',
-      'pizza': 'Pizza is detected. This is an Italian dish consisting of a flat bread base topped with tomato sauce, cheese, and various toppings.',
-      'donut': 'A donut is nearby. This is a sweet, fried pastry with a ring shape, often glazed or covered with sugar and various toppings.',
-      'cake': 'A cake is present. This is a sweet baked dessert, often layered and decorated with frosting, typically served at celebrations.',
-      'chair': 'A chair is visible. This is a piece of furniture designed for one person to sit on, with a back support and usually four legs.',
-      'couch': 'A couch is detected. This is upholstered furniture designed for multiple people to sit on, also called a sofa, commonly found in living rooms.',
-      'potted plant': 'A potted plant is nearby. This is vegetation growing in a container or pot, used for decoration or air purification indoors.',
-      'bed': 'A bed is present. This is furniture designed for sleeping and resting, typically consisting of a mattress on a frame with pillows.',
-      'dining table': 'A dining table is visible. This is furniture used for eating meals, where people sit around to share food and conversation.',
-      'toilet': 'A toilet is detected. This is a plumbing fixture used for waste disposal, typically found in bathrooms and restrooms.',
-      'tv': 'A television is nearby. This is an electronic device with a screen that displays video content, news, movies, and entertainment programs.',
-      'laptop': 'A laptop is present. This is a portable computer that can be folded shut, allowing you to work, browse internet, or watch videos anywhere.',
-      'mouse': 'A computer mouse is visible. This is a pointing device used to control the cursor on a computer screen by moving it on a surface.',
-      'remote': 'A remote control is detected. This is a handheld device used to operate electronic equipment like televisions or stereos from a distance.',
-      'keyboard': 'A keyboard is nearby. This is an input device with keys for typing letters, numbers, and commands into a computer or device.',
-      'cell phone': 'A cell phone is present. This is a mobile communication device that allows you to make calls, send messages, and access the internet.',
-      'microwave': 'A microwave is visible. This is a kitchen appliance that heats food quickly using electromagnetic waves called microwaves.',
-      'oven': 'An oven is detected. This is a kitchen appliance used for baking, roasting, or heating food using dry heat in an enclosed space.',
-      'toaster': 'A toaster is nearby. This is a small kitchen appliance designed to brown bread slices by exposing them to radiant heat.',
-      'sink': 'A sink is present. This is a basin with faucets used for washing dishes, hands, or food preparation in kitchens and bathrooms.',
-      'refrigerator': 'A refrigerator is visible. This is a large kitchen appliance that keeps food and beverages cold and fresh for longer storage.',
-      'book': 'A book is detected. This is a bound collection of printed pages containing written content like stories, information, or knowledge.',
-      'clock': 'A clock is nearby. This is a device that displays the current time, helping people keep track of hours and minutes throughout the day.',
-      'vase': 'A vase is present. This is a decorative container, often made of glass or ceramic, typically used for holding flowers or as decoration.',
-      'scissors': 'Scissors are visible. This is a cutting tool with two sharp blades that pivot against each other, used for cutting paper, fabric, or other materials.',
-      'teddy bear': 'A teddy bear is detected. This is a soft stuffed toy designed to resemble a bear, commonly given to children for comfort and play.',
-      'hair drier': 'A hair dryer is nearby. This is an electrical device that blows hot air to dry wet hair quickly after washing or styling.',
-      'toothbrush': 'A toothbrush is present. This is a small brush with bristles used for cleaning teeth and maintaining oral hygiene, typically used with toothpaste.'
+    speak(t('speech.cameraStopped'));
+  }, [toast, speak, t]);
+
+  // Persistent identities across frames, and which of them have already been announced
+  const [tracker] = useState(() => createTracker(tracking));
+  const [policy] = useState(() => createAnnouncementPolicy(announcementPolicy));
+  const [hazardMonitor] = useState(createHazardMonitor);
+
+  // "On your left, about 2 metres away" for a tracked object in the current video frame
+  const describeLocation = useCallback((track: Track, frame: FrameSize) => {
+    const position = describePosition(getSpatialPosition(track.box, frame, horizontalFov), directionStyle, t);
+    const distance = estimateDistance(track.label, track.box, frame, horizontalFov);
+    return distance
+      ? t('position.withDistance', { position, distance: describeDistance(distance, t) })
+      : position;
+  }, [directionStyle, horizontalFov, t]);
+
+  // Everything the announcement formatter needs about one object: wording, full location, and
+  // the bare direction used to group objects in scene summaries
+  const toAnnouncementItem = useCallback((track: Track, frame: FrameSize): AnnouncementItem => {
+    const position = getSpatialPosition(track.box, frame, horizontalFov);
+    const distance = estimateDistance(track.label, track.box, frame, horizontalFov);
+    return {
+      entry: lookupObject(track.label),
+      location: describeLocation(track, frame),
+      region: describePosition({ ...position, elevation: 'level' }, directionStyle, t),
+      distance: distance && describeDistance(distance, t),
+      metres: distance?.metres ?? null,
     };
-    
-    return descriptions[label] || `A ${label} is detected in your view. This object is part of your current environment and may require your attention.`;
-  };
+  }, [describeLocation, directionStyle, horizontalFov, lookupObject, t]);
+
+  // Nearest objects first, so announcements and the live list lead with what matters most
+  const sortByDistance = useCallback((tracks: Track[], frame: FrameSize) => {
+    const distances = new Map(tracks.map(track => [track.id, estimateDistance(track.label, track.box, frame, horizontalFov)]));
+    return [...tracks].sort((a, b) => compareByDistance(distances.get(a.id), distances.get(b.id)));
+  }, [horizontalFov]);
 
-  // Track previously announced objects to avoid repetition
-  const previousDetectionsRef = useRef<Set<string>>(new Set());
+  // Stereo position of a track: its bearing as a fraction of half the field of view
+  const panFor = useCallback((track: Track, frame: FrameSize) =>
+    getSpatialPosition(track.box, frame, horizontalFov).bearing / (horizontalFov / 2),
+  [horizontalFov]);
+
+  // One category earcon per object, placed where it is, so its direction is heard as the sentence starts
+  const playEarcons = useCallback((tracks: Track[], frame: FrameSize) => {
+    if (!speechEnabled || !earconsEnabled) return;
+    tracks.slice(0, MAX_EARCONS).forEach((track, index) => {
+      earcons.play(lookupObject(track.label).category, { pan: panFor(track, frame), delay: index * EARCON_SPACING_S });
+    });
+  }, [speechEnabled, earconsEnabled, earcons, lookupObject, panFor]);
 
   // Draw detection boxes on overlay canvas
-  const drawDetections = useCallback((detections: Detection[]) => {
+  const drawDetections = useCallback((detections: Track[]) => {
     if (!overlayCanvasRef.current || !videoRef.current) return;
 
     const canvas = overlayCanvasRef.current;
@@ -255,7 +395,9 @@ const ObjectDetector = () => {
 
     // Draw bounding boxes
     detections.forEach((detection) => {
-      const { box, label, score } = detection;
+      const { id, box, label, score } = detection;
+      const entry = lookupObject(label);
+      const { name } = entry;
       const scaleX = canvas.width / video.videoWidth;
       const scaleY = canvas.height / video.videoHeight;
 
@@ -264,132 +406,161 @@ const ObjectDetector = () => {
       const width = (box.xmax - box.xmin) * scaleX;
       const height = (box.ymax - box.ymin) * scaleY;
 
+      const colours = HAZARD_COLOURS[entry.hazard];
+
       // Draw bounding box
-      context.strokeStyle = '#00ff00';
-      context.lineWidth = 3;
+      context.strokeStyle = colours.stroke;
+      context.lineWidth = entry.hazard === 'danger' ? 5 : 3;
       context.strokeRect(x, y, width, height);
 
       // Draw label background
-      context.fillStyle = 'rgba(0, 255, 0, 0.8)';
+      context.fillStyle = colours.fill;
       context.fillRect(x, y - 30, width, 30);
 
       // Draw label text
-      context.fillStyle = '#000000';
+      context.fillStyle = colours.text;
       context.font = 'bold 16px Arial';
       context.textAlign = 'center';
       context.fillText(
-        `${label} (${Math.round(score * 100)}%)`,
+        `${name} #${id} (${Math.round(score * 100)}%)`,
         x + width / 2,
         y - 8
       );
     });
-  }, []);
+  }, [lookupObject]);
 
   // Perform object detection
   const detectObjects = useCallback(async () => {
-    if (!pipeline_ || !videoRef.current || !canvasRef.current || isPaused) return;
+    if (!backend || !videoRef.current) return;
 
-    const canvas = canvasRef.current;
-    const context = canvas.getContext('2d');
     const video = videoRef.current;
-
-    if (!context || video.videoWidth === 0 || video.videoHeight === 0) return;
-
-    canvas.width = video.videoWidth;
-    canvas.height = video.videoHeight;
-    context.drawImage(video, 0, 0);
+    if (video.videoWidth === 0 || video.videoHeight === 0) return;
 
     try {
-      // Create ImageData object for the pipeline
-      const imageData = context.getImageData(0, 0, canvas.width, canvas.height);
-      
-      // Convert to the format expected by transformers.js
-      const results = await pipeline_(canvas);
+      // The bitmap is transferred to the detector worker; boxes come back in video pixels
+      const frame = await createImageBitmap(video);
+      const results = await backend.detect(frame);
       
-      const filteredResults = results.filter((detection: Detection) => 
-        detection.score >= confidence
+      // Filters see catalog labels, and only what survives them takes part in merging and suppression
+      const labelled = canonicalizeLabels(results, postProcessConfig.synonyms);
+      const filteredResults = postProcess(
+        filterByClass(
+          filterByConfidence(labelled, confidence, classThresholds),
+          { include: includeClasses, exclude: excludeClasses },
+        ),
+        postProcessConfig,
       );
       
-      setDetections(filteredResults);
+      const frameSize = { width: video.videoWidth, height: video.videoHeight };
+      const now = performance.now();
+      const update = tracker.update(filteredResults, now);
+      const { events } = update;
+      const visible = sortByDistance(update.visible, frameSize);
+      events.forEach(event => {
+        if (event.type === 'exit') {
+          policy.forget(event.track.id);
+        }
+      });
+
+      // Approach warnings run every frame regardless of announcement cooldowns, and as alerts cut off
+      // anything else that is playing, critical replies included. Only the most imminent one is spoken.
+      const tracks = tracker.tracks();
+      const [hazard] = hazardMonitor.update(tracks, now, frameSize);
+      if (hazard) {
+        const approaching = tracks.find(track => track.id === hazard.trackId);
+        speak(describeHazard(hazard, lookupObject(hazard.label).name, t), {
+          priority: 'critical',
+          key: 'hazard',
+          alert: true,
+          pan: approaching && panFor(approaching, frameSize),
+        });
+      }
+      
+      setDetections(visible);
 
       // Draw detection boxes if enabled
       if (showDetections) {
-        drawDetections(filteredResults);
+        drawDetections(visible);
       }
 
-      if (filteredResults.length > 0 && speechEnabled) {
-        // Pause detection for 3 minutes when objects are found
-        setIsPaused(true);
-        
-        // Get the highest confidence detection that hasn't been announced recently
-        const newDetections = filteredResults.filter(detection => 
-          !previousDetectionsRef.current.has(detection.label)
-        );
-
-        if (newDetections.length > 0) {
-          // Announce all new detections
-          const descriptions = newDetections.slice(0, 3).map(detection => 
-            getObjectDescription(detection.label)
-          );
-          
-          const fullDescription = descriptions.length === 1 
-            ? descriptions[0]
-            : `I can see ${newDetections.length} objects: ${descriptions.join('. Also, ')}.`;
-          
-          speak(fullDescription);
-          
-          // Track these detections
-          newDetections.forEach(detection => {
-            previousDetectionsRef.current.add(detection.label);
-          });
-          
-          // Hold detection for 3 minutes (180 seconds) to allow user to examine objects
-          setTimeout(() => {
-            setIsPaused(false);
-            speak("Resuming object detection scan.");
-            // Clear tracking after hold period to allow re-announcement
-            newDetections.forEach(detection => {
-              previousDetectionsRef.current.delete(detection.label);
-            });
-          }, 180000); // 3 minutes
-        } else {
-          // Resume if no new detections after 10 seconds
-          setTimeout(() => {
-            setIsPaused(false);
-          }, 10000);
-        }
-      } else if (filteredResults.length === 0) {
-        // Clear previous detections when no objects are visible
-        previousDetectionsRef.current.clear();
-        setIsPaused(false);
+      if (!speechEnabled) return;
+
+      // The policy picks what to say; classes cooling down stay quiet while others are still announced.
+      // Danger-level objects skip the cooldowns and the watchlist and are announced as alerts.
+      const isDanger = (track: Track) => lookupObject(track.label).hazard === 'danger';
+      const watched = new Set(selectWatched(visible, { labels: watchlist, active: watchlistActive }));
+      const candidates = visible.filter(track => isDanger(track) || watched.has(track));
+      const newDetections = policy.select(candidates, now, isDanger);
+      const dangers = newDetections.filter(isDanger);
+      const routine = newDetections.filter(track => !isDanger(track));
+      if (dangers.length > 0) {
+        const items = dangers.map(detection => toAnnouncementItem(detection, frameSize));
+        // Always name and place, never the full description: an alert has to be over quickly
+        speak(t('announce.danger', { announcement: formatAnnouncement(items, 'short', t) }), {
+          priority: 'critical',
+          key: 'danger',
+          alert: true,
+          pan: panFor(dangers[0], frameSize),
+        });
+      }
+      if (routine.length > 0) {
+        // Several objects are summarized by class and direction, so all of them count as announced
+        const items = routine.map(detection => toAnnouncementItem(detection, frameSize));
+        speak(formatAnnouncement(items, verbosity, t), { key: 'scene' });
+        playEarcons(routine, frameSize);
+      }
+      if (newDetections.length > 0) {
+        policy.markAnnounced(newDetections, now);
       }
     } catch (error) {
       console.error('Detection error:', error);
-      setIsPaused(false);
-      // Try alternative canvas method if direct canvas fails
-      try {
-        const imageDataUrl = canvas.toDataURL('image/jpeg', 0.8);
-        const results = await pipeline_(imageDataUrl);
-        
-        const filteredResults = results.filter((detection: Detection) => 
-          detection.score >= confidence
-        );
-        
-        setDetections(filteredResults);
-        
-        if (showDetections) {
-          drawDetections(filteredResults);
-        }
-      } catch (fallbackError) {
-        console.error('Fallback detection error:', fallbackError);
-      }
     }
-  }, [pipeline_, confidence, speechEnabled, speak, showDetections, drawDetections, isPaused]);
+  }, [backend, tracker, policy, hazardMonitor, postProcessConfig, confidence, classThresholds, includeClasses, excludeClasses, watchlist, watchlistActive, speechEnabled, speak, showDetections, drawDetections, toAnnouncementItem, sortByDistance, panFor, playEarcons, verbosity, lookupObject, t]);
+
+  useEffect(() => {
+    policy.setConfig(announcementPolicy);
+  }, [policy, announcementPolicy]);
+
+  // Confusion groups also let the tracker carry one object through a label flip
+  useEffect(() => {
+    tracker.setOptions({ ...tracking, classKey: createClassKey(postProcessing.confusionGroups) });
+  }, [tracker, tracking, postProcessing]);
+
+  // Forget every cooldown so whatever is in view gets announced on the next frame
+  const resumeAnnouncements = useCallback(() => {
+    policy.resumeNow();
+    speak(t('speech.resuming'));
+  }, [policy, speak, t]);
+
+  // "What's around me?": everything in view right now, ignoring cooldowns. The user asked for it,
+  // so it cuts in ahead of routine announcements.
+  const announceInventory = useCallback(() => {
+    const video = videoRef.current;
+    if (!isDetecting || !video) {
+      speak(t('inventory.notRunning'), { priority: 'critical', key: 'inventory' });
+      return;
+    }
+    const frameSize = { width: video.videoWidth, height: video.videoHeight };
+    const items = detections.map(track => toAnnouncementItem(track, frameSize));
+    speak(formatInventory(items, t), { priority: 'critical', key: 'inventory' });
+    policy.markAnnounced(detections, performance.now());
+    playEarcons(detections, frameSize);
+  }, [isDetecting, detections, policy, toAnnouncementItem, playEarcons, speak, t]);
+
+  // The scheduler outlives renders, so it always calls the latest detectObjects through this ref
+  const detectObjectsRef = useRef(detectObjects);
+  useEffect(() => {
+    detectObjectsRef.current = detectObjects;
+  }, [detectObjects]);
+
+  useEffect(() => {
+    schedulerRef.current?.setTargetFps(targetFps);
+  }, [targetFps]);
 
   // Start/stop detection
   const toggleDetection = useCallback(async () => {
     if (!isDetecting) {
-      if (!pipeline_) {
+      if (!backend) {
         await initializePipeline();
         return;
       }
@@ -399,43 +570,135 @@ const ObjectDetector = () => {
       }
       
       setIsDetecting(true);
-      intervalRef.current = setInterval(detectObjects, 1500);
-      speak("Object detection started. I will announce what I see around you.");
+      if (videoRef.current) {
+        schedulerRef.current = createFrameScheduler({
+          video: videoRef.current,
+          onFrame: () => detectObjectsRef.current(),
+          targetFps,
+          onStats: setSchedulerStats,
+        });
+        schedulerRef.current.start();
+      }
+      speak(t('speech.detectionStarted'));
     } else {
       setIsDetecting(false);
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
-      }
-      speak("Object detection stopped.");
+      schedulerRef.current?.stop();
+      schedulerRef.current = null;
+      setSchedulerStats(null);
+      tracker.reset();
+      hazardMonitor.reset();
+      policy.reset();
+      speak(t('speech.detectionStopped'));
     }
-  }, [isDetecting, pipeline_, initializePipeline, startCamera, detectObjects, speak]);
+  }, [isDetecting, backend, tracker, hazardMonitor, policy, initializePipeline, startCamera, targetFps, speak, t]);
+
+  // Cleanup on unmount. stopCamera changes with the language and audio toggle, so it is read
+  // through a ref; otherwise switching either would run this cleanup and stop the camera.
+  const stopCameraRef = useRef(stopCamera);
+  useEffect(() => {
+    stopCameraRef.current = stopCamera;
+  }, [stopCamera]);
 
-  // Cleanup on unmount
   useEffect(() => {
     return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-      }
-      stopCamera();
+      schedulerRef.current?.stop();
+      stopCameraRef.current();
     };
-  }, [stopCamera]);
+  }, []);
+
+  // Profiles take effect at once; the new name is spoken so a switch from the keyboard can be heard
+  const announceProfile = useCallback((profile: Profile) => {
+    speak(t('speech.profileChanged', { name: profileName(profile, t) }), { priority: 'critical', key: 'profile' });
+  }, [speak, t]);
+
+  const switchProfile = useCallback((id: string) => {
+    settingsStore.switchProfile(id);
+    announceProfile(getActiveProfile(settingsStore.getState()));
+  }, [settingsStore, announceProfile]);
+
+  const importSettings = useCallback((json: string) => {
+    if (settingsStore.importSettings(json)) {
+      toast({ title: t('toast.profilesImported.title'), description: t('toast.profilesImported.description') });
+      announceProfile(getActiveProfile(settingsStore.getState()));
+    } else {
+      toast({
+        title: t('toast.profilesImportFailed.title'),
+        description: t('toast.profilesImportFailed.description'),
+        variant: "destructive",
+      });
+      speak(t('toast.profilesImportFailed.title'), { priority: 'critical' });
+    }
+  }, [settingsStore, announceProfile, toast, speak, t]);
+
+  const toggleEarcons = useCallback(() => {
+    updatePreferences({ earconsEnabled: !earconsEnabled });
+    speak(earconsEnabled ? t('speech.earconsOff') : t('speech.earconsOn'), { priority: 'critical', key: 'earcons' });
+  }, [earconsEnabled, updatePreferences, speak, t]);
+
+  // Narrows routine announcements to the watched classes, or goes back to announcing everything
+  const toggleWatchlist = useCallback(() => {
+    const active = !watchlistActive;
+    updatePreferences({ watchlistActive: active });
+    const names = watchlist.map(label => lookupObject(label).name);
+    const message = !active
+      ? t('speech.watchlistOff')
+      : names.length > 0
+        ? t('speech.watchlistOn', { items: joinList(names, t) })
+        : t('speech.watchlistEmpty');
+    speak(message, { priority: 'critical', key: 'watchlist' });
+  }, [watchlistActive, watchlist, updatePreferences, lookupObject, speak, t]);
 
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyPress = (event: KeyboardEvent) => {
+      // Letters typed into fields, open dialogs and sheets, or a select's type-to-find are not commands
+      const target = event.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select, [contenteditable="true"], [role="dialog"], [role="listbox"], [role="combobox"]')) return;
+
+      // Ctrl+F, Cmd+P and the like belong to the browser
+      if (event.ctrlKey || event.metaKey || event.altKey) return;
+
       if (event.code === 'Space') {
+        if (target?.closest(SPACE_CONTROLS)) return;
         event.preventDefault();
-        toggleDetection();
-      } else if (event.key === 'm' || event.key === 'M') {
-        setSpeechEnabled(prev => !prev);
-        speak(speechEnabled ? "Audio disabled" : "Audio enabled");
+        if (!event.repeat) toggleDetection();
+        return;
+      }
+
+      // A held key would flip toggles back and forth
+      if (event.repeat) return;
+
+      if (event.key === 'm' || event.key === 'M') {
+        updatePreferences({ speechEnabled: !speechEnabled });
+        speak(speechEnabled ? t('speech.audioDisabled') : t('speech.audioEnabled'), { priority: 'critical' });
+      } else if (event.key === 'r' || event.key === 'R') {
+        resumeAnnouncements();
+      } else if (event.key === 'w' || event.key === 'W') {
+        announceInventory();
+      } else if (event.key === 'l' || event.key === 'L') {
+        replay(history.repeatLast());
+      } else if (event.key === ',') {
+        replay(history.previous());
+      } else if (event.key === '.') {
+        replay(history.next());
+      } else if (event.key === 'e' || event.key === 'E') {
+        toggleEarcons();
+      } else if (event.key === 'f' || event.key === 'F') {
+        toggleWatchlist();
+      } else if (event.key === 'p' || event.key === 'P') {
+        announceProfile(settingsStore.cycleProfile());
+      } else if (event.key === 's' || event.key === 'S') {
+        toggleScreenReaderMode();
+      } else if (event.key === 'v' || event.key === 'V') {
+        const level = nextVerbosity(verbosity);
+        updatePreferences({ verbosity: level });
+        speak(t('speech.verbosityChanged', { level: t(`verbosity.${level}`) }), { priority: 'critical', key: 'verbosity' });
       }
     };
 
     window.addEventListener('keydown', handleKeyPress);
     return () => window.removeEventListener('keydown', handleKeyPress);
-  }, [toggleDetection, speechEnabled, speak]);
+  }, [toggleDetection, speechEnabled, speak, resumeAnnouncements, announceInventory, replay, history, toggleScreenReaderMode, settingsStore, announceProfile, toggleWatchlist, toggleEarcons, updatePreferences, verbosity, t]);
 
   return (
     <div className="min-h-screen bg-background p-4 space-y-6">
@@ -448,15 +711,31 @@ const ObjectDetector = () => {
           </h1>
         </div>
         <p className="text-xl text-muted-foreground max-w-2xl mx-auto">
-          Real-time object detection with audio guidance for the visually impaired
+          {t('app.tagline')}
         </p>
+        <div className="flex items-center justify-center gap-2">
+          <Languages className="h-5 w-5 text-muted-foreground" aria-hidden />
+          <Select value={locale} onValueChange={(value) => setLocale(value as Locale)}>
+            <SelectTrigger className="w-40" aria-label={t('language.label')}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(LOCALES) as Locale[]).map(code => (
+                <SelectItem key={code} value={code} lang={code}>
+                  {LOCALES[code].name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
       </header>
 
       {/* Main Controls */}
       <div className="flex flex-col items-center space-y-6">
         {/* Video Feed with Overlay Canvas */}
         <Card className="relative p-4 bg-card border-2">
-          <div className="relative w-full max-w-2xl">
+          {/* Double-tapping the video asks "What's around me?" */}
+          <div className="relative w-full max-w-2xl touch-manipulation" onDoubleClick={announceInventory}>
             <video
               ref={videoRef}
               autoPlay
@@ -482,28 +761,31 @@ const ObjectDetector = () => {
               style={{ opacity: showDetections ? 1 : 0 }}
             />
             
-            {/* Hidden canvas for detection processing */}
-            <canvas
-              ref={canvasRef}
-              className="hidden"
-            />
-            
             {/* Status Overlay */}
             <div className="absolute top-2 left-2 bg-black/80 text-white px-3 py-2 rounded-lg text-sm">
-              {isLoading && "Loading AI..."}
-              {!isLoading && pipeline_ && !isDetecting && "Ready"}
-              {isDetecting && !isPaused && "Scanning..."}
-              {isPaused && "Analyzing Object"}
-              {isSpeaking && " • Speaking"}
+              {isLoading && t('status.loading')}
+              {!isLoading && backend && !isDetecting && t('status.ready')}
+              {isDetecting && t('status.scanning')}
+              {isDetecting && schedulerStats && ` ${t('status.fps', { fps: schedulerStats.fps })}`}
+              {isSpeaking && ` • ${t('status.speaking')}`}
+              {speechState.pending.length > 0 && ` ${t('status.queued', { count: speechState.pending.length })}`}
             </div>
             
             {/* Detection Results Overlay */}
             {detections.length > 0 && (
               <div className="absolute bottom-2 left-2 right-2 bg-black/80 text-white p-3 rounded-lg">
-                <h3 className="font-bold text-green-400 mb-1">Live Detections:</h3>
-                {detections.slice(0, 3).map((detection, index) => (
-                  <div key={index} className="text-sm flex justify-between">
-                    <span className="capitalize">{detection.label}</span>
+                <h3 className="font-bold text-green-400 mb-1">{t('live.title')}</h3>
+                {detections.slice(0, 3).map((detection) => (
+                  <div key={detection.id} className="text-sm flex justify-between">
+                    <span className="capitalize">{lookupObject(detection.label).name} #{detection.id}</span>
+                    {videoRef.current && (
+                      <span className="text-white/70">
+                        {describeLocation(detection, {
+                          width: videoRef.current.videoWidth,
+                          height: videoRef.current.videoHeight,
+                        })}
+                      </span>
+                    )}
                     <span className="text-green-400">{Math.round(detection.score * 100)}%</span>
                   </div>
                 ))}
@@ -519,22 +801,22 @@ const ObjectDetector = () => {
           variant={isDetecting ? "destructive" : "vision"}
           size="xl"
           className="min-w-64"
-          aria-label={isDetecting ? "Stop object detection" : "Start object detection"}
+          aria-label={isDetecting ? t('detection.stopAria') : t('detection.startAria')}
         >
           {isLoading ? (
             <>
               <Settings className="animate-spin" />
-              Loading AI Model...
+              {t('detection.loading')}
             </>
           ) : isDetecting ? (
             <>
               <CameraOff />
-              Stop Detection
+              {t('detection.stop')}
             </>
           ) : (
             <>
               <Camera />
-              Start Detection
+              {t('detection.start')}
             </>
           )}
         </Button>
@@ -543,15 +825,37 @@ const ObjectDetector = () => {
         <div className="flex flex-wrap gap-4 justify-center">
           <Button
             onClick={() => {
-              setSpeechEnabled(prev => !prev);
-              speak(speechEnabled ? "Audio disabled" : "Audio enabled");
+              updatePreferences({ speechEnabled: !speechEnabled });
+              speak(speechEnabled ? t('speech.audioDisabled') : t('speech.audioEnabled'), { priority: 'critical' });
             }}
             variant={speechEnabled ? "audio" : "outline"}
             size="lg"
-            aria-label={speechEnabled ? "Disable audio" : "Enable audio"}
+            aria-label={speechEnabled ? t('audio.disableAria') : t('audio.enableAria')}
           >
             {speechEnabled ? <Volume2 /> : <VolumeX />}
-            {speechEnabled ? 'Audio On' : 'Audio Off'}
+            {speechEnabled ? t('audio.on') : t('audio.off')}
+          </Button>
+
+          <Button
+            onClick={toggleEarcons}
+            variant={earconsEnabled ? "default" : "outline"}
+            size="lg"
+            aria-pressed={earconsEnabled}
+            aria-label={earconsEnabled ? t('earcons.disableAria') : t('earcons.enableAria')}
+          >
+            <Radar />
+            {earconsEnabled ? t('earcons.on') : t('earcons.off')}
+          </Button>
+
+          <Button
+            onClick={toggleScreenReaderMode}
+            variant={screenReaderMode ? "default" : "outline"}
+            size="lg"
+            aria-pressed={screenReaderMode}
+            aria-label={screenReaderMode ? t('srMode.disableAria') : t('srMode.enableAria')}
+          >
+            <Accessibility />
+            {t('srMode.label')}
           </Button>
 
           <Button
@@ -559,10 +863,10 @@ const ObjectDetector = () => {
             variant="outline"
             size="lg"
             disabled={!!streamRef.current}
-            aria-label="Start camera"
+            aria-label={t('camera.start')}
           >
             <Camera />
-            Start Camera
+            {t('camera.start')}
           </Button>
 
           <Button
@@ -570,49 +874,204 @@ const ObjectDetector = () => {
             variant="outline" 
             size="lg"
             disabled={!streamRef.current}
-            aria-label="Stop camera"
+            aria-label={t('camera.stop')}
           >
             <CameraOff />
-            Stop Camera
+            {t('camera.stop')}
           </Button>
 
           <Button
-            onClick={() => setShowDetections(!showDetections)}
+            onClick={() => updatePreferences({ showDetections: !showDetections })}
             variant={showDetections ? "default" : "outline"}
             size="lg"
-            aria-label={showDetections ? "Hide detection boxes" : "Show detection boxes"}
+            aria-label={showDetections ? t('boxes.hideAria') : t('boxes.showAria')}
           >
             <Eye />
-            {showDetections ? 'Hide Boxes' : 'Show Boxes'}
+            {showDetections ? t('boxes.hide') : t('boxes.show')}
+          </Button>
+
+          <ProfilesPanel
+            settings={settingsState}
+            onSwitch={switchProfile}
+            onCreate={(name) => announceProfile(settingsStore.createProfile(name))}
+            onDelete={(id) => {
+              settingsStore.deleteProfile(id);
+              announceProfile(getActiveProfile(settingsStore.getState()));
+            }}
+            onExport={settingsStore.exportSettings}
+            onImport={importSettings}
+          />
+
+          <DetectionSettingsSheet
+            catalog={catalog}
+            confidence={confidence}
+            classThresholds={classThresholds}
+            onChange={updatePreferences}
+          />
+
+          <ClassFiltersPanel
+            catalog={catalog}
+            preferences={preferences}
+            onChange={updatePreferences}
+          />
+
+          <SpeechSettingsPanel
+            voices={voices}
+            settings={speechSettings}
+            activeVoice={voice}
+            onChange={updateSpeechSettings}
+            onPreview={() => speak(t('speechSettings.previewText'), { priority: 'critical', key: 'preview' })}
+            onReset={resetSpeechSettings}
+            canPreview={speechEnabled && !screenReaderMode}
+          />
+
+          <CatalogEditor
+            catalog={catalog}
+            overrides={catalogOverrides}
+            staleOverrides={staleOverrides}
+            onEdit={editEntry}
+            onReset={resetEntry}
+            onConfirmOverrides={confirmOverrides}
+          />
+
+          <Button
+            onClick={resumeAnnouncements}
+            variant="outline"
+            size="lg"
+            disabled={!isDetecting}
+            aria-label={t('resume.aria')}
+          >
+            <RotateCcw />
+            {t('resume.label')}
+          </Button>
+
+          <Button
+            onClick={announceInventory}
+            variant="outline"
+            size="lg"
+            disabled={!isDetecting}
+            aria-label={t('inventory.aria')}
+          >
+            <ListChecks />
+            {t('inventory.button')}
+          </Button>
+
+          <Button
+            onClick={() => updatePreferences({ directionStyle: directionStyle === 'sides' ? 'clock' : 'sides' })}
+            variant="outline"
+            size="lg"
+            aria-label={directionStyle === 'sides'
+              ? t('direction.useClockAria')
+              : t('direction.useSidesAria')}
+          >
+            <Compass />
+            {directionStyle === 'sides' ? t('direction.sides') : t('direction.clock')}
           </Button>
         </div>
 
+        {/* Scan Rate */}
+        <div className="w-full max-w-md space-y-2">
+          <div className="flex justify-between text-sm text-muted-foreground">
+            <label id="scan-rate-label" className="font-bold">{t('scanRate.label')}</label>
+            <span>
+              {t('scanRate.value', { fps: targetFps })}
+              {schedulerStats && ` ${t('scanRate.actual', {
+                fps: schedulerStats.fps,
+                latency: Math.round(schedulerStats.latencyMs),
+              })}`}
+            </span>
+          </div>
+          <Slider
+            value={[targetFps]}
+            onValueChange={([value]) => updatePreferences({ targetFps: value })}
+            min={MIN_TARGET_FPS}
+            max={MAX_TARGET_FPS}
+            step={0.5}
+            aria-labelledby="scan-rate-label"
+          />
+        </div>
+
+        {/* Announcement Verbosity */}
+        <div className="w-full max-w-md space-y-2">
+          <div id="verbosity-label" className="text-sm font-bold text-muted-foreground">{t('verbosity.title')}</div>
+          <ToggleGroup
+            type="single"
+            value={verbosity}
+            onValueChange={(value) => value && updatePreferences({ verbosity: value as Verbosity })}
+            aria-labelledby="verbosity-label"
+            className="justify-start"
+          >
+            {VERBOSITY_LEVELS.map(level => (
+              <ToggleGroupItem key={level} value={level} variant="outline">
+                {t(`verbosity.${level}`)}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+
+        {/* Camera Field of View */}
+        <div className="w-full max-w-md space-y-2">
+          <div className="flex justify-between text-sm text-muted-foreground">
+            <label id="fov-label" className="font-bold">{t('fov.label')}</label>
+            <span>{t('fov.value', { degrees: horizontalFov })}</span>
+          </div>
+          <Slider
+            value={[horizontalFov]}
+            onValueChange={([value]) => updateSpeechSettings({ horizontalFov: value })}
+            min={HORIZONTAL_FOV_RANGE.min}
+            max={HORIZONTAL_FOV_RANGE.max}
+            step={1}
+            aria-labelledby="fov-label"
+          />
+        </div>
+
         {/* Status Indicators */}
         <div className="flex gap-4 text-center">
           <div className={`p-3 rounded-lg ${isDetecting ? 'bg-success/20 text-success' : 'bg-muted text-muted-foreground'}`}>
-            <div className="font-bold">Detection</div>
-            <div className="text-sm">{isDetecting ? 'Active' : 'Inactive'}</div>
+            <div className="font-bold">{t('indicator.detection')}</div>
+            <div className="text-sm">{isDetecting ? t('indicator.active') : t('indicator.inactive')}</div>
           </div>
           
           <div className={`p-3 rounded-lg ${speechEnabled ? 'bg-primary/20 text-primary' : 'bg-muted text-muted-foreground'}`}>
-            <div className="font-bold">Audio</div>
-            <div className="text-sm">{speechEnabled ? 'Enabled' : 'Disabled'}</div>
+            <div className="font-bold">{t('indicator.audio')}</div>
+            <div className="text-sm">{speechEnabled ? t('indicator.enabled') : t('indicator.disabled')}</div>
           </div>
           
           <div className={`p-3 rounded-lg ${streamRef.current ? 'bg-success/20 text-success' : 'bg-muted text-muted-foreground'}`}>
-            <div className="font-bold">Camera</div>
-            <div className="text-sm">{streamRef.current ? 'Active' : 'Inactive'}</div>
+            <div className="font-bold">{t('indicator.camera')}</div>
+            <div className="text-sm">{streamRef.current ? t('indicator.active') : t('indicator.inactive')}</div>
           </div>
         </div>
 
+        <SpeechQueuePanel state={speechState} onClear={speechQueue.cancelAll} />
+
+        <AnnouncementTranscript
+          state={historyState}
+          onPrevious={() => replay(history.previous())}
+          onNext={() => replay(history.next())}
+          onRepeat={() => replay(history.repeatLast())}
+          onClear={history.clear}
+        />
+
+        <LiveAnnouncer messages={liveMessages} />
+
         {/* Instructions */}
         <Card className="p-6 max-w-2xl text-center space-y-3">
-          <h3 className="text-xl font-bold text-primary">How to Use</h3>
+          <h3 className="text-xl font-bold text-primary">{t('help.title')}</h3>
           <div className="space-y-2 text-muted-foreground">
-            <p><strong>Spacebar:</strong> Start/Stop object detection</p>
-            <p><strong>M key:</strong> Toggle audio on/off</p>
-            <p><strong>Voice Guide:</strong> Listen for real-time object descriptions</p>
-            <p><strong>Tip:</strong> Point your camera at objects for best results</p>
+            <p><strong>{t('help.spaceKey')}</strong> {t('help.space')}</p>
+            <p><strong>{t('help.mKey')}</strong> {t('help.m')}</p>
+            <p><strong>{t('help.rKey')}</strong> {t('help.r')}</p>
+            <p><strong>{t('help.vKey')}</strong> {t('help.v')}</p>
+            <p><strong>{t('help.wKey')}</strong> {t('help.w')}</p>
+            <p><strong>{t('help.lKey')}</strong> {t('help.l')}</p>
+            <p><strong>{t('help.navKey')}</strong> {t('help.nav')}</p>
+            <p><strong>{t('help.eKey')}</strong> {t('help.e')}</p>
+            <p><strong>{t('help.fKey')}</strong> {t('help.f')}</p>
+            <p><strong>{t('help.pKey')}</strong> {t('help.p')}</p>
+            <p><strong>{t('help.sKey')}</strong> {t('help.s')}</p>
+            <p><strong>{t('help.voiceGuideKey')}</strong> {t('help.voiceGuide')}</p>
+            <p><strong>{t('help.tipKey')}</strong> {t('help.tip')}</p>
           </div>
         </Card>
       </div>
@@ -0,0 +1,131 @@
+import { useRef, useState } from 'react';
+import { UserCog } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useI18n } from '@/hooks/use-i18n';
+import { isBuiltinProfile, type Settings } from '@/lib/settings/schema';
+import { getActiveProfile, profileName } from '@/lib/settings/store';
+
+interface ProfilesPanelProps {
+  settings: Settings;
+  onSwitch: (id: string) => void;
+  onCreate: (name: string) => void;
+  onDelete: (id: string) => void;
+  onExport: () => string;
+  onImport: (json: string) => void;
+}
+
+const EXPORT_FILE_NAME = 'blindvision-settings.json';
+
+const ProfilesPanel = ({ settings, onSwitch, onCreate, onDelete, onExport, onImport }: ProfilesPanelProps) => {
+  const { t } = useI18n();
+  const [newName, setNewName] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const active = getActiveProfile(settings);
+  const activeName = profileName(active, t);
+
+  const create = () => {
+    const name = newName.trim();
+    if (!name) return;
+    onCreate(name);
+    setNewName('');
+  };
+
+  const download = () => {
+    const url = URL.createObjectURL(new Blob([onExport()], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = EXPORT_FILE_NAME;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const upload = async (file: File | undefined) => {
+    if (!file) return;
+    onImport(await file.text());
+    // Allow picking the same file again after fixing it
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="lg" aria-label={t('profiles.openAria', { name: activeName })}>
+          <UserCog />
+          {t('profiles.open', { name: activeName })}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t('profiles.title')}</DialogTitle>
+          <DialogDescription>{t('profiles.description')}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <label id="profile-active-label" className="text-sm font-bold">{t('profiles.active')}</label>
+            <div className="flex gap-2">
+              <Select value={active.id} onValueChange={onSwitch}>
+                <SelectTrigger aria-labelledby="profile-active-label">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {settings.profiles.map(profile => (
+                    <SelectItem key={profile.id} value={profile.id}>{profileName(profile, t)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                onClick={() => onDelete(active.id)}
+                variant="outline"
+                disabled={isBuiltinProfile(active.id) || settings.profiles.length <= 1}
+              >
+                {t('profiles.delete')}
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="profile-new-name">{t('profiles.newName')}</Label>
+            <div className="flex gap-2">
+              <Input
+                id="profile-new-name"
+                value={newName}
+                onChange={(event) => setNewName(event.target.value)}
+                onKeyDown={(event) => event.key === 'Enter' && create()}
+              />
+              <Button onClick={create} disabled={!newName.trim()}>{t('profiles.create')}</Button>
+            </div>
+            <p className="text-xs text-muted-foreground">{t('profiles.createHint', { name: activeName })}</p>
+          </div>
+
+          <div className="space-y-2">
+            <div className="text-sm font-bold">{t('profiles.transfer')}</div>
+            <div className="flex gap-2">
+              <Button onClick={download} variant="outline">{t('profiles.export')}</Button>
+              <Button onClick={() => fileInputRef.current?.click()} variant="outline">{t('profiles.import')}</Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(event) => upload(event.target.files?.[0])}
+              />
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ProfilesPanel;
@@ -0,0 +1,55 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { useI18n } from '@/hooks/use-i18n';
+import type { SpeechItem, SpeechPriority, SpeechQueueState } from '@/lib/speech/queue';
+
+interface SpeechQueuePanelProps {
+  state: SpeechQueueState;
+  onClear: () => void;
+}
+
+const PRIORITY_VARIANT: Record<SpeechPriority, 'destructive' | 'default' | 'secondary'> = {
+  critical: 'destructive',
+  normal: 'default',
+  low: 'secondary',
+};
+
+const QueueRow = ({ item, speaking }: { item: SpeechItem; speaking?: boolean }) => {
+  const { t } = useI18n();
+  return (
+    <li className="flex items-start gap-2 text-sm">
+      <Badge variant={PRIORITY_VARIANT[item.priority]} className="shrink-0">
+        {t(`priority.${item.priority}`)}
+      </Badge>
+      <span className={speaking ? 'font-semibold' : 'text-muted-foreground'}>
+        {speaking && t('queue.speaking')}
+        {item.text}
+      </span>
+    </li>
+  );
+};
+
+const SpeechQueuePanel = ({ state, onClear }: SpeechQueuePanelProps) => {
+  const { t } = useI18n();
+  if (!state.current && state.pending.length === 0) return null;
+
+  return (
+    <Card className="p-4 w-full max-w-2xl space-y-3" aria-label={t('queue.aria')}>
+      <div className="flex items-center justify-between">
+        <h3 className="font-bold text-primary">{t('queue.title')}</h3>
+        <Button onClick={onClear} variant="outline" size="sm" aria-label={t('queue.clearAria')}>
+          {t('queue.clear')}
+        </Button>
+      </div>
+      <ul className="space-y-2">
+        {state.current && <QueueRow item={state.current} speaking />}
+        {state.pending.map(item => (
+          <QueueRow key={item.id} item={item} />
+        ))}
+      </ul>
+    </Card>
+  );
+};
+
+export default SpeechQueuePanel;
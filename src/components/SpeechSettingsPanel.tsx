@@ -0,0 +1,164 @@
+import { AudioLines } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { useI18n } from '@/hooks/use-i18n';
+import { LOCALES } from '@/lib/i18n/locales';
+import { PITCH_RANGE, RATE_RANGE, type SpeechSettings } from '@/lib/speech/settings';
+
+interface SpeechSettingsPanelProps {
+  voices: SpeechSynthesisVoice[];
+  settings: SpeechSettings;
+  // The voice actually in use, whether chosen or matched automatically
+  activeVoice: SpeechSynthesisVoice | null;
+  onChange: (update: Partial<SpeechSettings>) => void;
+  onPreview: () => void;
+  onReset: () => void;
+  canPreview: boolean;
+}
+
+// Radix Select items cannot have an empty value
+const AUTO_VOICE = 'auto';
+
+const SpeechSettingsPanel = ({
+  voices,
+  settings,
+  activeVoice,
+  onChange,
+  onPreview,
+  onReset,
+  canPreview,
+}: SpeechSettingsPanelProps) => {
+  const { t, locale, formatNumber } = useI18n();
+  const language = LOCALES[locale].speechLang.split('-')[0];
+  const matching = voices.filter(voice => voice.lang.toLowerCase().startsWith(language));
+  const others = voices.filter(voice => !voice.lang.toLowerCase().startsWith(language));
+
+  const chooseVoice = (voiceURI: string) => {
+    const { [locale]: _previous, ...rest } = settings.voices;
+    onChange({ voices: voiceURI === AUTO_VOICE ? rest : { ...rest, [locale]: voiceURI } });
+  };
+
+  const voiceItem = (voice: SpeechSynthesisVoice) => (
+    <SelectItem key={voice.voiceURI} value={voice.voiceURI}>
+      {voice.name} ({voice.lang})
+    </SelectItem>
+  );
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="lg" aria-label={t('speechSettings.openAria')}>
+          <AudioLines />
+          {t('speechSettings.open')}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t('speechSettings.title')}</DialogTitle>
+          <DialogDescription>{t('speechSettings.description')}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <label id="speech-voice-label" className="text-sm font-bold">{t('speechSettings.voice')}</label>
+            <Select value={settings.voices[locale] ?? AUTO_VOICE} onValueChange={chooseVoice}>
+              <SelectTrigger aria-labelledby="speech-voice-label">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={AUTO_VOICE}>
+                  {activeVoice && !settings.voices[locale]
+                    ? t('speechSettings.voiceAutoNamed', { name: activeVoice.name })
+                    : t('speechSettings.voiceAuto')}
+                </SelectItem>
+                {matching.length > 0 && (
+                  <SelectGroup>
+                    <SelectLabel>{LOCALES[locale].name}</SelectLabel>
+                    {matching.map(voiceItem)}
+                  </SelectGroup>
+                )}
+                {others.length > 0 && (
+                  <SelectGroup>
+                    <SelectLabel>{t('speechSettings.otherLanguages')}</SelectLabel>
+                    {others.map(voiceItem)}
+                  </SelectGroup>
+                )}
+              </SelectContent>
+            </Select>
+            {voices.length === 0 && (
+              <p className="text-xs text-muted-foreground">{t('speechSettings.noVoices')}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <label id="speech-rate-label" className="font-bold">{t('speechSettings.rate')}</label>
+              <span className="text-muted-foreground">{formatNumber(settings.rate)}×</span>
+            </div>
+            <Slider
+              value={[settings.rate]}
+              onValueChange={([rate]) => onChange({ rate })}
+              min={RATE_RANGE.min}
+              max={RATE_RANGE.max}
+              step={0.1}
+              aria-labelledby="speech-rate-label"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <label id="speech-pitch-label" className="font-bold">{t('speechSettings.pitch')}</label>
+              <span className="text-muted-foreground">{formatNumber(settings.pitch)}</span>
+            </div>
+            <Slider
+              value={[settings.pitch]}
+              onValueChange={([pitch]) => onChange({ pitch })}
+              min={PITCH_RANGE.min}
+              max={PITCH_RANGE.max}
+              step={0.1}
+              aria-labelledby="speech-pitch-label"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <label id="speech-volume-label" className="font-bold">{t('speechSettings.volume')}</label>
+              <span className="text-muted-foreground">{Math.round(settings.volume * 100)}%</span>
+            </div>
+            <Slider
+              value={[settings.volume]}
+              onValueChange={([volume]) => onChange({ volume })}
+              min={0}
+              max={1}
+              step={0.05}
+              aria-labelledby="speech-volume-label"
+            />
+          </div>
+
+          <div className="flex gap-2">
+            <Button onClick={onPreview} disabled={!canPreview}>{t('speechSettings.preview')}</Button>
+            <Button onClick={onReset} variant="outline">{t('speechSettings.reset')}</Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SpeechSettingsPanel;
@@ -0,0 +1,812 @@
+import type { ObjectCatalog } from '@/lib/catalog/schema';
+
+// German descriptions for the 80 COCO classes. Labels, synonyms, categories and hazard levels mirror en.ts;
+// only the wording is translated.
+const catalog: ObjectCatalog = {
+  version: 3,
+  locale: 'de',
+  entries: [
+    {
+      label: 'person',
+      name: 'Person',
+      plural: 'Personen',
+      synonyms: [],
+      category: 'person',
+      hazard: 'info',
+      short: 'eine Person',
+      long: 'Eine Person ist in Ihrem Blickfeld. Sie kann gehen, stehen oder sich in Ihrer unmittelbaren Umgebung bewegen.',
+    },
+    {
+      label: 'bicycle',
+      name: 'Fahrrad',
+      plural: 'Fahrräder',
+      synonyms: [],
+      category: 'vehicle',
+      hazard: 'caution',
+      short: 'ein Fahrrad',
+      long: 'Ein Fahrrad ist in der Nähe. Es ist ein zweirädriges Fahrzeug mit Pedalen, das sich schnell nähern kann.',
+    },
+    {
+      label: 'car',
+      name: 'Auto',
+      plural: 'Autos',
+      synonyms: [],
+      category: 'vehicle',
+      hazard: 'danger',
+      short: 'ein Auto',
+      long: 'Ein Auto ist zu sehen. Es ist ein vierrädriges Kraftfahrzeug für den Straßenverkehr.',
+    },
+    {
+      label: 'motorcycle',
+      name: 'Motorrad',
+      plural: 'Motorräder',
+      synonyms: ['motorbike'],
+      category: 'vehicle',
+      hazard: 'danger',
+      short: 'ein Motorrad',
+      long: 'Ein Motorrad ist zu sehen. Es ist ein motorisiertes Zweirad, das deutlich schneller fährt als ein Fahrrad.',
+    },
+    {
+      label: 'airplane',
+      name: 'Flugzeug',
+      plural: 'Flugzeuge',
+      synonyms: ['aeroplane'],
+      category: 'vehicle',
+      hazard: 'info',
+      short: 'ein Flugzeug',
+      long: 'Ein Flugzeug ist zu sehen, meist hoch am Himmel oder auf einem Flughafen.',
+    },
+    {
+      label: 'bus',
+      name: 'Bus',
+      plural: 'Busse',
+      synonyms: [],
+      category: 'vehicle',
+      hazard: 'danger',
+      short: 'ein Bus',
+      long: 'Ein Bus ist in der Nähe. Er ist ein großes Fahrzeug für viele Fahrgäste und hält oft an Haltestellen.',
+    },
+    {
+      label: 'train',
+      name: 'Zug',
+      plural: 'Züge',
+      synonyms: [],
+      category: 'vehicle',
+      hazard: 'danger',
+      short: 'ein Zug',
+      long: 'Ein Zug ist zu sehen. Er fährt auf Schienen; halten Sie sicheren Abstand zu den Gleisen.',
+    },
+    {
+      label: 'truck',
+      name: 'Lastwagen',
+      plural: 'Lastwagen',
+      synonyms: [],
+      category: 'vehicle',
+      hazard: 'danger',
+      short: 'ein Lastwagen',
+      long: 'Ein Lastwagen ist in der Nähe. Er ist ein großes Fahrzeug für Güter und braucht beim Abbiegen viel Platz.',
+    },
+    {
+      label: 'boat',
+      name: 'Boot',
+      plural: 'Boote',
+      synonyms: [],
+      category: 'vehicle',
+      hazard: 'info',
+      short: 'ein Boot',
+      long: 'Ein Boot ist zu sehen. In der Nähe ist vermutlich Wasser.',
+    },
+    {
+      label: 'traffic light',
+      name: 'Ampel',
+      plural: 'Ampeln',
+      synonyms: [],
+      category: 'street',
+      hazard: 'info',
+      short: 'eine Ampel',
+      long: 'Eine Ampel ist zu sehen. Sie befinden sich wahrscheinlich an einer Kreuzung oder einem Übergang.',
+    },
+    {
+      label: 'fire hydrant',
+      name: 'Hydrant',
+      plural: 'Hydranten',
+      synonyms: [],
+      category: 'street',
+      hazard: 'caution',
+      short: 'ein Hydrant',
+      long: 'Ein Hydrant steht auf dem Gehweg. Er ist niedrig und kann zur Stolperfalle werden.',
+    },
+    {
+      label: 'stop sign',
+      name: 'Stoppschild',
+      plural: 'Stoppschilder',
+      synonyms: [],
+      category: 'street',
+      hazard: 'info',
+      short: 'ein Stoppschild',
+      long: 'Ein Stoppschild ist zu sehen. Fahrzeuge müssen hier anhalten, Sie sind also nahe einer Kreuzung.',
+    },
+    {
+      label: 'parking meter',
+      name: 'Parkuhr',
+      plural: 'Parkuhren',
+      synonyms: [],
+      category: 'street',
+      hazard: 'info',
+      short: 'eine Parkuhr',
+      long: 'Eine Parkuhr steht am Gehwegrand. Sie ist ein schmaler Pfosten, an dem man sich stoßen kann.',
+    },
+    {
+      label: 'bench',
+      name: 'Bank',
+      plural: 'Bänke',
+      synonyms: [],
+      category: 'street',
+      hazard: 'info',
+      short: 'eine Bank',
+      long: 'Eine Sitzbank ist in der Nähe. Dort können Sie sich setzen und ausruhen.',
+    },
+    {
+      label: 'bird',
+      name: 'Vogel',
+      plural: 'Vögel',
+      synonyms: [],
+      category: 'animal',
+      hazard: 'info',
+      short: 'ein Vogel',
+      long: 'Ein Vogel ist zu sehen, am Boden, in einem Baum oder im Flug.',
+    },
+    {
+      label: 'cat',
+      name: 'Katze',
+      plural: 'Katzen',
+      synonyms: [],
+      category: 'animal',
+      hazard: 'info',
+      short: 'eine Katze',
+      long: 'Eine Katze ist in der Nähe. Sie kann Ihnen unerwartet in den Weg laufen.',
+    },
+    {
+      label: 'dog',
+      name: 'Hund',
+      plural: 'Hunde',
+      synonyms: [],
+      category: 'animal',
+      hazard: 'info',
+      short: 'ein Hund',
+      long: 'Ein Hund ist in der Nähe. Er kann ein Haustier sein; vermeiden Sie plötzliche Bewegungen.',
+    },
+    {
+      label: 'horse',
+      name: 'Pferd',
+      plural: 'Pferde',
+      synonyms: [],
+      category: 'animal',
+      hazard: 'info',
+      short: 'ein Pferd',
+      long: 'Ein Pferd ist zu sehen. Es ist ein großes Tier; stellen Sie sich nicht hinter es.',
+    },
+    {
+      label: 'sheep',
+      name: 'Schaf',
+      plural: 'Schafe',
+      synonyms: [],
+      category: 'animal',
+      hazard: 'info',
+      short: 'ein Schaf',
+      long: 'Ein Schaf ist zu sehen. Sie sind wahrscheinlich nahe einer Weide.',
+    },
+    {
+      label: 'cow',
+      name: 'Kuh',
+      plural: 'Kühe',
+      synonyms: [],
+      category: 'animal',
+      hazard: 'info',
+      short: 'eine Kuh',
+      long: 'Eine Kuh ist zu sehen. Sie ist ein großes Tier und kann auch auf der Straße stehen.',
+    },
+    {
+      label: 'elephant',
+      name: 'Elefant',
+      plural: 'Elefanten',
+      synonyms: [],
+      category: 'animal',
+      hazard: 'info',
+      short: 'ein Elefant',
+      long: 'Ein Elefant ist zu sehen. Er ist sehr groß; halten Sie Abstand.',
+    },
+    {
+      label: 'bear',
+      name: 'Bär',
+      plural: 'Bären',
+      synonyms: [],
+      category: 'animal',
+      hazard: 'danger',
+      short: 'ein Bär',
+      long: 'Ein Bär ist zu sehen. Er kann gefährlich sein; bleiben Sie ruhig und entfernen Sie sich langsam.',
+    },
+    {
+      label: 'zebra',
+      name: 'Zebra',
+      plural: 'Zebras',
+      synonyms: [],
+      category: 'animal',
+      hazard: 'info',
+      short: 'ein Zebra',
+      long: 'Ein Zebra ist zu sehen, ein gestreiftes Wildtier.',
+    },
+    {
+      label: 'giraffe',
+      name: 'Giraffe',
+      plural: 'Giraffen',
+      synonyms: [],
+      category: 'animal',
+      hazard: 'info',
+      short: 'eine Giraffe',
+      long: 'Eine Giraffe ist zu sehen, ein sehr großes Tier mit langem Hals.',
+    },
+    {
+      label: 'backpack',
+      name: 'Rucksack',
+      plural: 'Rucksäcke',
+      synonyms: [],
+      category: 'accessory',
+      hazard: 'info',
+      short: 'ein Rucksack',
+      long: 'Ein Rucksack ist zu sehen, getragen oder auf dem Boden abgestellt.',
+    },
+    {
+      label: 'umbrella',
+      name: 'Regenschirm',
+      plural: 'Regenschirme',
+      synonyms: [],
+      category: 'accessory',
+      hazard: 'info',
+      short: 'ein Regenschirm',
+      long: 'Ein Regenschirm ist zu sehen. Seine Speichen können auf Kopfhöhe sein.',
+    },
+    {
+      label: 'handbag',
+      name: 'Handtasche',
+      plural: 'Handtaschen',
+      synonyms: [],
+      category: 'accessory',
+      hazard: 'info',
+      short: 'eine Handtasche',
+      long: 'Eine Handtasche ist zu sehen, getragen oder auf einer Fläche abgestellt.',
+    },
+    {
+      label: 'tie',
+      name: 'Krawatte',
+      plural: 'Krawatten',
+      synonyms: ['necktie'],
+      category: 'accessory',
+      hazard: 'info',
+      short: 'eine Krawatte',
+      long: 'Eine Krawatte ist zu sehen, vermutlich von einer Person getragen.',
+    },
+    {
+      label: 'suitcase',
+      name: 'Koffer',
+      plural: 'Koffer',
+      synonyms: [],
+      category: 'accessory',
+      hazard: 'info',
+      short: 'ein Koffer',
+      long: 'Ein Koffer ist zu sehen. Abgestelltes Gepäck kann zur Stolperfalle werden.',
+    },
+    {
+      label: 'frisbee',
+      name: 'Frisbee',
+      plural: 'Frisbees',
+      synonyms: [],
+      category: 'sports',
+      hazard: 'info',
+      short: 'ein Frisbee',
+      long: 'Ein Frisbee ist zu sehen. Es kann durch die Luft fliegen.',
+    },
+    {
+      label: 'skis',
+      name: 'Ski',
+      plural: 'Paar Ski',
+      synonyms: [],
+      category: 'sports',
+      hazard: 'info',
+      short: 'ein Paar Ski',
+      long: 'Ein Paar Ski ist zu sehen.',
+    },
+    {
+      label: 'snowboard',
+      name: 'Snowboard',
+      plural: 'Snowboards',
+      synonyms: [],
+      category: 'sports',
+      hazard: 'info',
+      short: 'ein Snowboard',
+      long: 'Ein Snowboard ist zu sehen.',
+    },
+    {
+      label: 'sports ball',
+      name: 'Ball',
+      plural: 'Bälle',
+      synonyms: ['ball'],
+      category: 'sports',
+      hazard: 'info',
+      short: 'ein Ball',
+      long: 'Ein Ball ist zu sehen. Er kann auf Sie zurollen oder zufliegen.',
+    },
+    {
+      label: 'kite',
+      name: 'Drachen',
+      plural: 'Drachen',
+      synonyms: [],
+      category: 'sports',
+      hazard: 'info',
+      short: 'ein Drachen',
+      long: 'Ein Drachen ist am Himmel zu sehen.',
+    },
+    {
+      label: 'baseball bat',
+      name: 'Baseballschläger',
+      plural: 'Baseballschläger',
+      synonyms: [],
+      category: 'sports',
+      hazard: 'info',
+      short: 'ein Baseballschläger',
+      long: 'Ein Baseballschläger ist zu sehen. Halten Sie Abstand, falls jemand damit schwingt.',
+    },
+    {
+      label: 'baseball glove',
+      name: 'Baseballhandschuh',
+      plural: 'Baseballhandschuhe',
+      synonyms: [],
+      category: 'sports',
+      hazard: 'info',
+      short: 'ein Baseballhandschuh',
+      long: 'Ein Baseballhandschuh ist zu sehen.',
+    },
+    {
+      label: 'skateboard',
+      name: 'Skateboard',
+      plural: 'Skateboards',
+      synonyms: [],
+      category: 'sports',
+      hazard: 'info',
+      short: 'ein Skateboard',
+      long: 'Ein Skateboard ist zu sehen. Es kann schnell heranrollen oder auf dem Boden liegen.',
+    },
+    {
+      label: 'surfboard',
+      name: 'Surfbrett',
+      plural: 'Surfbretter',
+      synonyms: [],
+      category: 'sports',
+      hazard: 'info',
+      short: 'ein Surfbrett',
+      long: 'Ein Surfbrett ist zu sehen. Es ist lang, und wer es trägt, kann sich plötzlich drehen.',
+    },
+    {
+      label: 'tennis racket',
+      name: 'Tennisschläger',
+      plural: 'Tennisschläger',
+      synonyms: [],
+      category: 'sports',
+      hazard: 'info',
+      short: 'ein Tennisschläger',
+      long: 'Ein Tennisschläger ist zu sehen.',
+    },
+    {
+      label: 'bottle',
+      name: 'Flasche',
+      plural: 'Flaschen',
+      synonyms: [],
+      category: 'kitchen',
+      hazard: 'info',
+      short: 'eine Flasche',
+      long: 'Eine Flasche ist zu sehen. Sie kann Wasser oder ein anderes Getränk enthalten.',
+    },
+    {
+      label: 'wine glass',
+      name: 'Weinglas',
+      plural: 'Weingläser',
+      synonyms: [],
+      category: 'kitchen',
+      hazard: 'info',
+      short: 'ein Weinglas',
+      long: 'Ein Weinglas ist zu sehen. Es ist zerbrechlich; greifen Sie vorsichtig danach.',
+    },
+    {
+      label: 'cup',
+      name: 'Tasse',
+      plural: 'Tassen',
+      synonyms: [],
+      category: 'kitchen',
+      hazard: 'info',
+      short: 'eine Tasse',
+      long: 'Eine Tasse ist zu sehen. Sie kann ein heißes Getränk enthalten.',
+    },
+    {
+      label: 'fork',
+      name: 'Gabel',
+      plural: 'Gabeln',
+      synonyms: [],
+      category: 'kitchen',
+      hazard: 'info',
+      short: 'eine Gabel',
+      long: 'Eine Gabel ist zu sehen.',
+    },
+    {
+      label: 'knife',
+      name: 'Messer',
+      plural: 'Messer',
+      synonyms: [],
+      category: 'kitchen',
+      hazard: 'caution',
+      short: 'ein Messer',
+      long: 'Ein Messer ist zu sehen. Die Klinge kann scharf sein; fassen Sie es vorsichtig an.',
+    },
+    {
+      label: 'spoon',
+      name: 'Löffel',
+      plural: 'Löffel',
+      synonyms: [],
+      category: 'kitchen',
+      hazard: 'info',
+      short: 'ein Löffel',
+      long: 'Ein Löffel ist zu sehen.',
+    },
+    {
+      label: 'bowl',
+      name: 'Schüssel',
+      plural: 'Schüsseln',
+      synonyms: [],
+      category: 'kitchen',
+      hazard: 'info',
+      short: 'eine Schüssel',
+      long: 'Eine Schüssel ist zu sehen. Sie kann Essen oder Flüssigkeit enthalten.',
+    },
+    {
+      label: 'banana',
+      name: 'Banane',
+      plural: 'Bananen',
+      synonyms: [],
+      category: 'food',
+      hazard: 'info',
+      short: 'eine Banane',
+      long: 'Eine Banane ist zu sehen.',
+    },
+    {
+      label: 'apple',
+      name: 'Apfel',
+      plural: 'Äpfel',
+      synonyms: [],
+      category: 'food',
+      hazard: 'info',
+      short: 'ein Apfel',
+      long: 'Ein Apfel ist zu sehen.',
+    },
+    {
+      label: 'sandwich',
+      name: 'Sandwich',
+      plural: 'Sandwiches',
+      synonyms: [],
+      category: 'food',
+      hazard: 'info',
+      short: 'ein Sandwich',
+      long: 'Ein Sandwich ist zu sehen.',
+    },
+    {
+      label: 'orange',
+      name: 'Orange',
+      plural: 'Orangen',
+      synonyms: [],
+      category: 'food',
+      hazard: 'info',
+      short: 'eine Orange',
+      long: 'Eine Orange ist zu sehen.',
+    },
+    {
+      label: 'broccoli',
+      name: 'Brokkoli',
+      plural: 'Brokkoli',
+      synonyms: [],
+      category: 'food',
+      hazard: 'info',
+      short: 'Brokkoli',
+      long: 'Brokkoli ist zu sehen.',
+    },
+    {
+      label: 'carrot',
+      name: 'Karotte',
+      plural: 'Karotten',
+      synonyms: [],
+      category: 'food',
+      hazard: 'info',
+      short: 'eine Karotte',
+      long: 'Eine Karotte ist zu sehen.',
+    },
+    {
+      label: 'hot dog',
+      name: 'Hotdog',
+      plural: 'Hotdogs',
+      synonyms: [],
+      category: 'food',
+      hazard: 'info',
+      short: 'ein Hotdog',
+      long: 'Ein Hotdog ist zu sehen.',
+    },
+    {
+      label: 'pizza',
+      name: 'Pizza',
+      plural: 'Pizzen',
+      synonyms: [],
+      category: 'food',
+      hazard: 'info',
+      short: 'eine Pizza',
+      long: 'Eine Pizza ist zu sehen.',
+    },
+    {
+      label: 'donut',
+      name: 'Donut',
+      plural: 'Donuts',
+      synonyms: [],
+      category: 'food',
+      hazard: 'info',
+      short: 'ein Donut',
+      long: 'Ein Donut ist zu sehen.',
+    },
+    {
+      label: 'cake',
+      name: 'Kuchen',
+      plural: 'Kuchen',
+      synonyms: [],
+      category: 'food',
+      hazard: 'info',
+      short: 'ein Kuchen',
+      long: 'Ein Kuchen ist zu sehen.',
+    },
+    {
+      label: 'chair',
+      name: 'Stuhl',
+      plural: 'Stühle',
+      synonyms: [],
+      category: 'furniture',
+      hazard: 'info',
+      short: 'ein Stuhl',
+      long: 'Ein Stuhl ist in der Nähe. Sie können sich setzen, sich aber auch daran stoßen.',
+    },
+    {
+      label: 'couch',
+      name: 'Sofa',
+      plural: 'Sofas',
+      synonyms: ['sofa'],
+      category: 'furniture',
+      hazard: 'info',
+      short: 'ein Sofa',
+      long: 'Ein Sofa ist zu sehen, ein großes, bequemes Sitzmöbel.',
+    },
+    {
+      label: 'potted plant',
+      name: 'Topfpflanze',
+      plural: 'Topfpflanzen',
+      synonyms: ['pottedplant', 'plant'],
+      category: 'furniture',
+      hazard: 'info',
+      short: 'eine Topfpflanze',
+      long: 'Eine Topfpflanze ist zu sehen. Ein Topf auf dem Boden kann im Weg stehen.',
+    },
+    {
+      label: 'bed',
+      name: 'Bett',
+      plural: 'Betten',
+      synonyms: [],
+      category: 'furniture',
+      hazard: 'info',
+      short: 'ein Bett',
+      long: 'Ein Bett ist zu sehen. Sie sind wahrscheinlich in einem Schlafzimmer.',
+    },
+    {
+      label: 'dining table',
+      name: 'Esstisch',
+      plural: 'Esstische',
+      synonyms: ['table', 'diningtable'],
+      category: 'furniture',
+      hazard: 'info',
+      short: 'ein Esstisch',
+      long: 'Ein Esstisch ist zu sehen. Achten Sie auf Kanten und Stühle drumherum.',
+    },
+    {
+      label: 'toilet',
+      name: 'Toilette',
+      plural: 'Toiletten',
+      synonyms: [],
+      category: 'furniture',
+      hazard: 'info',
+      short: 'eine Toilette',
+      long: 'Eine Toilette ist zu sehen. Sie sind wahrscheinlich in einem Badezimmer.',
+    },
+    {
+      label: 'tv',
+      name: 'Fernseher',
+      plural: 'Fernseher',
+      synonyms: ['television', 'tvmonitor'],
+      category: 'electronics',
+      hazard: 'info',
+      short: 'ein Fernseher',
+      long: 'Ein Fernseher ist zu sehen, an der Wand oder auf einem Möbel.',
+    },
+    {
+      label: 'laptop',
+      name: 'Laptop',
+      plural: 'Laptops',
+      synonyms: ['notebook'],
+      category: 'electronics',
+      hazard: 'info',
+      short: 'ein Laptop',
+      long: 'Ein Laptop ist zu sehen, vermutlich auf einem Tisch.',
+    },
+    {
+      label: 'mouse',
+      name: 'Maus',
+      plural: 'Mäuse',
+      synonyms: ['computer mouse'],
+      category: 'electronics',
+      hazard: 'info',
+      short: 'eine Maus',
+      long: 'Eine Computermaus ist zu sehen.',
+    },
+    {
+      label: 'remote',
+      name: 'Fernbedienung',
+      plural: 'Fernbedienungen',
+      synonyms: ['remote control'],
+      category: 'electronics',
+      hazard: 'info',
+      short: 'eine Fernbedienung',
+      long: 'Eine Fernbedienung ist zu sehen.',
+    },
+    {
+      label: 'keyboard',
+      name: 'Tastatur',
+      plural: 'Tastaturen',
+      synonyms: [],
+      category: 'electronics',
+      hazard: 'info',
+      short: 'eine Tastatur',
+      long: 'Eine Tastatur ist zu sehen.',
+    },
+    {
+      label: 'cell phone',
+      name: 'Handy',
+      plural: 'Handys',
+      synonyms: ['mobile phone', 'phone'],
+      category: 'electronics',
+      hazard: 'info',
+      short: 'ein Handy',
+      long: 'Ein Handy ist zu sehen.',
+    },
+    {
+      label: 'microwave',
+      name: 'Mikrowelle',
+      plural: 'Mikrowellen',
+      synonyms: [],
+      category: 'appliance',
+      hazard: 'info',
+      short: 'eine Mikrowelle',
+      long: 'Eine Mikrowelle ist zu sehen. Sie sind wahrscheinlich in einer Küche.',
+    },
+    {
+      label: 'oven',
+      name: 'Backofen',
+      plural: 'Backöfen',
+      synonyms: [],
+      category: 'appliance',
+      hazard: 'caution',
+      short: 'ein Backofen',
+      long: 'Ein Backofen ist zu sehen. Er kann heiß sein; berühren Sie ihn vorsichtig.',
+    },
+    {
+      label: 'toaster',
+      name: 'Toaster',
+      plural: 'Toaster',
+      synonyms: [],
+      category: 'appliance',
+      hazard: 'info',
+      short: 'ein Toaster',
+      long: 'Ein Toaster ist zu sehen.',
+    },
+    {
+      label: 'sink',
+      name: 'Spüle',
+      plural: 'Spülen',
+      synonyms: [],
+      category: 'appliance',
+      hazard: 'info',
+      short: 'eine Spüle',
+      long: 'Eine Spüle mit Wasserhahn ist zu sehen.',
+    },
+    {
+      label: 'refrigerator',
+      name: 'Kühlschrank',
+      plural: 'Kühlschränke',
+      synonyms: ['fridge'],
+      category: 'appliance',
+      hazard: 'info',
+      short: 'ein Kühlschrank',
+      long: 'Ein Kühlschrank ist zu sehen. Sie sind wahrscheinlich in einer Küche.',
+    },
+    {
+      label: 'book',
+      name: 'Buch',
+      plural: 'Bücher',
+      synonyms: [],
+      category: 'household',
+      hazard: 'info',
+      short: 'ein Buch',
+      long: 'Ein Buch ist zu sehen.',
+    },
+    {
+      label: 'clock',
+      name: 'Uhr',
+      plural: 'Uhren',
+      synonyms: [],
+      category: 'household',
+      hazard: 'info',
+      short: 'eine Uhr',
+      long: 'Eine Uhr ist zu sehen, vermutlich an der Wand.',
+    },
+    {
+      label: 'vase',
+      name: 'Vase',
+      plural: 'Vasen',
+      synonyms: [],
+      category: 'household',
+      hazard: 'info',
+      short: 'eine Vase',
+      long: 'Eine Vase ist zu sehen. Sie kann zerbrechlich sein.',
+    },
+    {
+      label: 'scissors',
+      name: 'Schere',
+      plural: 'Scheren',
+      synonyms: [],
+      category: 'household',
+      hazard: 'caution',
+      short: 'eine Schere',
+      long: 'Eine Schere ist zu sehen. Sie kann scharf sein.',
+    },
+    {
+      label: 'teddy bear',
+      name: 'Teddybär',
+      plural: 'Teddybären',
+      synonyms: [],
+      category: 'household',
+      hazard: 'info',
+      short: 'ein Teddybär',
+      long: 'Ein Teddybär ist zu sehen, ein weiches Spielzeug.',
+    },
+    {
+      label: 'hair drier',
+      name: 'Föhn',
+      plural: 'Föhne',
+      synonyms: ['hair dryer'],
+      category: 'household',
+      hazard: 'info',
+      short: 'ein Föhn',
+      long: 'Ein Föhn ist zu sehen.',
+    },
+    {
+      label: 'toothbrush',
+      name: 'Zahnbürste',
+      plural: 'Zahnbürsten',
+      synonyms: [],
+      category: 'household',
+      hazard: 'info',
+      short: 'eine Zahnbürste',
+      long: 'Eine Zahnbürste ist zu sehen.',
+    },
+  ],
+};
+
+export default catalog;
@@ -0,0 +1,812 @@
+import type { ObjectCatalog } from '@/lib/catalog/schema';
+
+// English descriptions for the 80 COCO classes. Bump `version` when entries change so saved
+// caregiver overrides can be checked against the catalog they were written for.
+const catalog: ObjectCatalog = {
+  version: 4,
+  locale: 'en',
+  entries: [
+    {
+      label: 'person',
+      name: 'person',
+      plural: 'people',
+      synonyms: [],
+      category: 'person',
+      hazard: 'info',
+      short: 'a person',
+      long: 'A person is detected in your view. This is a human being who may be walking, standing, or moving around in your immediate area.',
+    },
+    {
+      label: 'bicycle',
+      name: 'bicycle',
+      plural: 'bicycles',
+      synonyms: [],
+      category: 'vehicle',
+      hazard: 'caution',
+      short: 'a bicycle',
+      long: 'A bicycle is detected nearby. This is a two-wheeled pedal-powered vehicle used for transportation, exercise, or recreation.',
+    },
+    {
+      label: 'car',
+      name: 'car',
+      plural: 'cars',
+      synonyms: [],
+      category: 'vehicle',
+      hazard: 'danger',
+      short: 'a car',
+      long: 'A car is present in the scene. This is a four-wheeled motor vehicle designed for passenger transportation on roads.',
+    },
+    {
+      label: 'motorcycle',
+      name: 'motorcycle',
+      plural: 'motorcycles',
+      synonyms: ['motorbike'],
+      category: 'vehicle',
+      hazard: 'danger',
+      short: 'a motorcycle',
+      long: 'A motorcycle is visible. This is a two-wheeled motor vehicle that provides faster transportation than bicycles but requires more skill to operate.',
+    },
+    {
+      label: 'airplane',
+      name: 'airplane',
+      plural: 'airplanes',
+      synonyms: ['aeroplane'],
+      category: 'vehicle',
+      hazard: 'info',
+      short: 'an airplane',
+      long: 'An airplane is visible in the sky above. This is a powered aircraft with wings that flies through the air for transportation.',
+    },
+    {
+      label: 'bus',
+      name: 'bus',
+      plural: 'buses',
+      synonyms: [],
+      category: 'vehicle',
+      hazard: 'danger',
+      short: 'a bus',
+      long: 'A bus is nearby. This is a large motor vehicle designed to carry many passengers, often used for public transportation.',
+    },
+    {
+      label: 'train',
+      name: 'train',
+      plural: 'trains',
+      synonyms: [],
+      category: 'vehicle',
+      hazard: 'danger',
+      short: 'a train',
+      long: 'A train is detected. This is a series of connected rail cars that travel on tracks, used for transporting passengers or cargo over long distances.',
+    },
+    {
+      label: 'truck',
+      name: 'truck',
+      plural: 'trucks',
+      synonyms: [],
+      category: 'vehicle',
+      hazard: 'danger',
+      short: 'a truck',
+      long: 'A truck is present. This is a large motor vehicle designed primarily for transporting goods and materials rather than passengers.',
+    },
+    {
+      label: 'boat',
+      name: 'boat',
+      plural: 'boats',
+      synonyms: [],
+      category: 'vehicle',
+      hazard: 'info',
+      short: 'a boat',
+      long: 'A boat is visible on the water. This is a watercraft used for traveling across rivers, lakes, or oceans for transportation or recreation.',
+    },
+    {
+      label: 'traffic light',
+      name: 'traffic light',
+      plural: 'traffic lights',
+      synonyms: [],
+      category: 'street',
+      hazard: 'info',
+      short: 'a traffic light',
+      long: 'A traffic light is ahead of you. This is a signaling device that uses colored lights - red, yellow, and green - to control traffic flow at intersections.',
+    },
+    {
+      label: 'fire hydrant',
+      name: 'fire hydrant',
+      plural: 'fire hydrants',
+      synonyms: [],
+      category: 'street',
+      hazard: 'caution',
+      short: 'a fire hydrant',
+      long: 'A fire hydrant is located nearby. This is a water supply point that firefighters connect their hoses to when fighting fires.',
+    },
+    {
+      label: 'stop sign',
+      name: 'stop sign',
+      plural: 'stop signs',
+      synonyms: [],
+      category: 'street',
+      hazard: 'info',
+      short: 'a stop sign',
+      long: 'A stop sign is visible. This is a red, octagonal traffic sign that requires all vehicles to come to a complete stop before proceeding.',
+    },
+    {
+      label: 'parking meter',
+      name: 'parking meter',
+      plural: 'parking meters',
+      synonyms: [],
+      category: 'street',
+      hazard: 'info',
+      short: 'a parking meter',
+      long: 'A parking meter is present. This is a device that collects payment for parking in designated spaces, usually found on city streets.',
+    },
+    {
+      label: 'bench',
+      name: 'bench',
+      plural: 'benches',
+      synonyms: [],
+      category: 'street',
+      hazard: 'info',
+      short: 'a bench',
+      long: 'A bench is in your vicinity. This is outdoor seating furniture, typically made of wood or metal, found in parks, bus stops, or public spaces.',
+    },
+    {
+      label: 'bird',
+      name: 'bird',
+      plural: 'birds',
+      synonyms: [],
+      category: 'animal',
+      hazard: 'info',
+      short: 'a bird',
+      long: 'A bird is detected in the area. This is a feathered animal with wings that can fly, and it is part of the local wildlife around you.',
+    },
+    {
+      label: 'cat',
+      name: 'cat',
+      plural: 'cats',
+      synonyms: [],
+      category: 'animal',
+      hazard: 'info',
+      short: 'a cat',
+      long: 'A cat is present nearby. This is a small, domesticated feline animal often kept as a pet, known for its independence and agility.',
+    },
+    {
+      label: 'dog',
+      name: 'dog',
+      plural: 'dogs',
+      synonyms: [],
+      category: 'animal',
+      hazard: 'info',
+      short: 'a dog',
+      long: 'A dog is detected in the area. This is a domesticated canine animal, commonly kept as a companion pet and known for loyalty to humans.',
+    },
+    {
+      label: 'horse',
+      name: 'horse',
+      plural: 'horses',
+      synonyms: [],
+      category: 'animal',
+      hazard: 'info',
+      short: 'a horse',
+      long: 'A horse is visible. This is a large, four-legged mammal historically used for riding, pulling carts, and farm work.',
+    },
+    {
+      label: 'sheep',
+      name: 'sheep',
+      plural: 'sheep',
+      synonyms: [],
+      category: 'animal',
+      hazard: 'info',
+      short: 'a sheep',
+      long: 'A sheep is in the scene. This is a woolly farm animal raised primarily for its wool, meat, and sometimes milk.',
+    },
+    {
+      label: 'cow',
+      name: 'cow',
+      plural: 'cows',
+      synonyms: [],
+      category: 'animal',
+      hazard: 'info',
+      short: 'a cow',
+      long: 'A cow is present. This is a large farm animal, a bovine mammal raised for milk production, meat, and leather.',
+    },
+    {
+      label: 'elephant',
+      name: 'elephant',
+      plural: 'elephants',
+      synonyms: [],
+      category: 'animal',
+      hazard: 'info',
+      short: 'an elephant',
+      long: 'An elephant is detected. This is the largest land mammal, with a long trunk, large ears, and tusks, native to Africa and Asia.',
+    },
+    {
+      label: 'bear',
+      name: 'bear',
+      plural: 'bears',
+      synonyms: [],
+      category: 'animal',
+      hazard: 'danger',
+      short: 'a bear',
+      long: 'A bear is visible - exercise caution. This is a large, powerful mammal that can be dangerous. Keep your distance and avoid sudden movements.',
+    },
+    {
+      label: 'zebra',
+      name: 'zebra',
+      plural: 'zebras',
+      synonyms: [],
+      category: 'animal',
+      hazard: 'info',
+      short: 'a zebra',
+      long: 'A zebra is in view. This is a horse-like African mammal with distinctive black and white stripes covering its entire body.',
+    },
+    {
+      label: 'giraffe',
+      name: 'giraffe',
+      plural: 'giraffes',
+      synonyms: [],
+      category: 'animal',
+      hazard: 'info',
+      short: 'a giraffe',
+      long: 'A giraffe is detected. This is the tallest mammal in the world, with an extremely long neck and legs, native to African savannas.',
+    },
+    {
+      label: 'backpack',
+      name: 'backpack',
+      plural: 'backpacks',
+      synonyms: [],
+      category: 'accessory',
+      hazard: 'info',
+      short: 'a backpack',
+      long: 'A backpack is nearby. This is a bag with shoulder straps designed to be carried on someone\'s back, used for carrying personal items, books, or hiking gear.',
+    },
+    {
+      label: 'umbrella',
+      name: 'umbrella',
+      plural: 'umbrellas',
+      synonyms: [],
+      category: 'accessory',
+      hazard: 'info',
+      short: 'an umbrella',
+      long: 'An umbrella is present. This is a portable shelter consisting of a circular canopy on a folding frame, used for protection from rain or sun.',
+    },
+    {
+      label: 'handbag',
+      name: 'handbag',
+      plural: 'handbags',
+      synonyms: [],
+      category: 'accessory',
+      hazard: 'info',
+      short: 'a handbag',
+      long: 'A handbag is visible. This is a bag, typically carried by hand or over the shoulder, used for carrying personal items like wallets, keys, and phones.',
+    },
+    {
+      label: 'tie',
+      name: 'tie',
+      plural: 'ties',
+      synonyms: ['necktie'],
+      category: 'accessory',
+      hazard: 'info',
+      short: 'a necktie',
+      long: 'A necktie is detected. This is a formal accessory worn around the neck, typically by men with dress shirts for business or formal occasions.',
+    },
+    {
+      label: 'suitcase',
+      name: 'suitcase',
+      plural: 'suitcases',
+      synonyms: [],
+      category: 'accessory',
+      hazard: 'info',
+      short: 'a suitcase',
+      long: 'A suitcase is present. This is a rectangular traveling case with a handle, used for packing clothes and personal items when traveling.',
+    },
+    {
+      label: 'frisbee',
+      name: 'frisbee',
+      plural: 'frisbees',
+      synonyms: [],
+      category: 'sports',
+      hazard: 'info',
+      short: 'a frisbee',
+      long: 'A frisbee is nearby. This is a disc-shaped toy that is thrown and caught for recreation, often used in parks or beaches.',
+    },
+    {
+      label: 'skis',
+      name: 'skis',
+      plural: 'pairs of skis',
+      synonyms: [],
+      category: 'sports',
+      hazard: 'info',
+      short: 'skis',
+      long: 'Skis are visible. These are long, narrow boards attached to boots for gliding over snow, used in winter sports and recreation.',
+    },
+    {
+      label: 'snowboard',
+      name: 'snowboard',
+      plural: 'snowboards',
+      synonyms: [],
+      category: 'sports',
+      hazard: 'info',
+      short: 'a snowboard',
+      long: 'A snowboard is detected. This is a wide board used for descending snow-covered slopes, similar to surfing but on snow.',
+    },
+    {
+      label: 'sports ball',
+      name: 'sports ball',
+      plural: 'balls',
+      synonyms: ['ball'],
+      category: 'sports',
+      hazard: 'info',
+      short: 'a ball',
+      long: 'A sports ball is in view. This is a round object used in various sports and games, could be a basketball, soccer ball, or similar.',
+    },
+    {
+      label: 'kite',
+      name: 'kite',
+      plural: 'kites',
+      synonyms: [],
+      category: 'sports',
+      hazard: 'info',
+      short: 'a kite',
+      long: 'A kite is visible. This is a lightweight object designed to fly in the wind, often diamond-shaped and controlled by a string from the ground.',
+    },
+    {
+      label: 'baseball bat',
+      name: 'baseball bat',
+      plural: 'baseball bats',
+      synonyms: [],
+      category: 'sports',
+      hazard: 'info',
+      short: 'a baseball bat',
+      long: 'A baseball bat is nearby. This is a wooden or metal club used in baseball to hit the ball, typically about three feet long.',
+    },
+    {
+      label: 'baseball glove',
+      name: 'baseball glove',
+      plural: 'baseball gloves',
+      synonyms: [],
+      category: 'sports',
+      hazard: 'info',
+      short: 'a baseball glove',
+      long: 'A baseball glove is present. This is a leather mitt worn on the hand to catch and field baseballs during the game.',
+    },
+    {
+      label: 'skateboard',
+      name: 'skateboard',
+      plural: 'skateboards',
+      synonyms: [],
+      category: 'sports',
+      hazard: 'info',
+      short: 'a skateboard',
+      long: 'A skateboard is detected. This is a board with four wheels used for transportation and performing tricks, popular among youth.',
+    },
+    {
+      label: 'surfboard',
+      name: 'surfboard',
+      plural: 'surfboards',
+      synonyms: [],
+      category: 'sports',
+      hazard: 'info',
+      short: 'a surfboard',
+      long: 'A surfboard is visible. This is a long board used for riding ocean waves, a key piece of equipment in the sport of surfing.',
+    },
+    {
+      label: 'tennis racket',
+      name: 'tennis racket',
+      plural: 'tennis rackets',
+      synonyms: [],
+      category: 'sports',
+      hazard: 'info',
+      short: 'a tennis racket',
+      long: 'A tennis racket is nearby. This is a stringed paddle used to hit tennis balls, consisting of a handle and an oval head with strings.',
+    },
+    {
+      label: 'bottle',
+      name: 'bottle',
+      plural: 'bottles',
+      synonyms: [],
+      category: 'kitchen',
+      hazard: 'info',
+      short: 'a bottle',
+      long: 'A bottle is present. This is a container, typically made of glass or plastic, used for storing and drinking liquids like water or beverages.',
+    },
+    {
+      label: 'wine glass',
+      name: 'wine glass',
+      plural: 'wine glasses',
+      synonyms: [],
+      category: 'kitchen',
+      hazard: 'info',
+      short: 'a wine glass',
+      long: 'A wine glass is visible. This is a stemmed glass specifically designed for drinking wine, with a bowl, stem, and base.',
+    },
+    {
+      label: 'cup',
+      name: 'cup',
+      plural: 'cups',
+      synonyms: [],
+      category: 'kitchen',
+      hazard: 'info',
+      short: 'a cup',
+      long: 'A cup is detected. This is a small, open container used for drinking hot or cold beverages like coffee, tea, or water.',
+    },
+    {
+      label: 'fork',
+      name: 'fork',
+      plural: 'forks',
+      synonyms: [],
+      category: 'kitchen',
+      hazard: 'info',
+      short: 'a fork',
+      long: 'A fork is nearby. This is an eating utensil with two or more prongs, used for picking up and eating solid food.',
+    },
+    {
+      label: 'knife',
+      name: 'knife',
+      plural: 'knives',
+      synonyms: [],
+      category: 'kitchen',
+      hazard: 'caution',
+      short: 'a knife',
+      long: 'A knife is present. This is a cutting tool with a sharp blade, used for cutting food during meals or food preparation.',
+    },
+    {
+      label: 'spoon',
+      name: 'spoon',
+      plural: 'spoons',
+      synonyms: [],
+      category: 'kitchen',
+      hazard: 'info',
+      short: 'a spoon',
+      long: 'A spoon is visible. This is an eating utensil with a shallow bowl shape, used for eating liquids, soups, or soft foods.',
+    },
+    {
+      label: 'bowl',
+      name: 'bowl',
+      plural: 'bowls',
+      synonyms: [],
+      category: 'kitchen',
+      hazard: 'info',
+      short: 'a bowl',
+      long: 'A bowl is detected. This is a round, deep container used for holding and eating food, especially soups, cereals, or salads.',
+    },
+    {
+      label: 'banana',
+      name: 'banana',
+      plural: 'bananas',
+      synonyms: [],
+      category: 'food',
+      hazard: 'info',
+      short: 'a banana',
+      long: 'A banana is present. This is a yellow, curved tropical fruit that is sweet, nutritious, and high in potassium and energy.',
+    },
+    {
+      label: 'apple',
+      name: 'apple',
+      plural: 'apples',
+      synonyms: [],
+      category: 'food',
+      hazard: 'info',
+      short: 'an apple',
+      long: 'An apple is visible. This is a round fruit, typically red or green, that is sweet, crunchy, and rich in vitamins and fiber.',
+    },
+    {
+      label: 'sandwich',
+      name: 'sandwich',
+      plural: 'sandwiches',
+      synonyms: [],
+      category: 'food',
+      hazard: 'info',
+      short: 'a sandwich',
+      long: 'A sandwich is nearby. This is a food item consisting of ingredients like meat, cheese, or vegetables placed between slices of bread.',
+    },
+    {
+      label: 'orange',
+      name: 'orange',
+      plural: 'oranges',
+      synonyms: [],
+      category: 'food',
+      hazard: 'info',
+      short: 'an orange',
+      long: 'An orange is detected. This is a round, orange-colored citrus fruit that is juicy, sweet, and high in vitamin C.',
+    },
+    {
+      label: 'broccoli',
+      name: 'broccoli',
+      plural: 'heads of broccoli',
+      synonyms: [],
+      category: 'food',
+      hazard: 'info',
+      short: 'broccoli',
+      long: 'Broccoli is in view. This is a green vegetable with a tree-like appearance, known for being very nutritious and high in vitamins.',
+    },
+    {
+      label: 'carrot',
+      name: 'carrot',
+      plural: 'carrots',
+      synonyms: [],
+      category: 'food',
+      hazard: 'info',
+      short: 'a carrot',
+      long: 'A carrot is present. This is an orange root vegetable that is long and tapered, sweet in taste and rich in beta-carotene.',
+    },
+    {
+      label: 'hot dog',
+      name: 'hot dog',
+      plural: 'hot dogs',
+      synonyms: [],
+      category: 'food',
+      hazard: 'info',
+      short: 'a hot dog',
+      long: 'A hot dog is visible. This is a cooked sausage typically served in a split bun with various condiments like mustard or ketchup.',
+    },
+    {
+      label: 'pizza',
+      name: 'pizza',
+      plural: 'pizzas',
+      synonyms: [],
+      category: 'food',
+      hazard: 'info',
+      short: 'pizza',
+      long: 'Pizza is detected. This is an Italian dish consisting of a flat bread base topped with tomato sauce, cheese, and various toppings.',
+    },
+    {
+      label: 'donut',
+      name: 'donut',
+      plural: 'donuts',
+      synonyms: [],
+      category: 'food',
+      hazard: 'info',
+      short: 'a donut',
+      long: 'A donut is nearby. This is a sweet, fried pastry with a ring shape, often glazed or covered with sugar and various toppings.',
+    },
+    {
+      label: 'cake',
+      name: 'cake',
+      plural: 'cakes',
+      synonyms: [],
+      category: 'food',
+      hazard: 'info',
+      short: 'a cake',
+      long: 'A cake is present. This is a sweet baked dessert, often layered and decorated with frosting, typically served at celebrations.',
+    },
+    {
+      label: 'chair',
+      name: 'chair',
+      plural: 'chairs',
+      synonyms: [],
+      category: 'furniture',
+      hazard: 'info',
+      short: 'a chair',
+      long: 'A chair is visible. This is a piece of furniture designed for one person to sit on, with a back support and usually four legs.',
+    },
+    {
+      label: 'couch',
+      name: 'couch',
+      plural: 'couches',
+      synonyms: ['sofa'],
+      category: 'furniture',
+      hazard: 'info',
+      short: 'a couch',
+      long: 'A couch is detected. This is upholstered furniture designed for multiple people to sit on, also called a sofa, commonly found in living rooms.',
+    },
+    {
+      label: 'potted plant',
+      name: 'potted plant',
+      plural: 'potted plants',
+      synonyms: ['pottedplant', 'plant'],
+      category: 'furniture',
+      hazard: 'info',
+      short: 'a potted plant',
+      long: 'A potted plant is nearby. This is vegetation growing in a container or pot, used for decoration or air purification indoors.',
+    },
+    {
+      label: 'bed',
+      name: 'bed',
+      plural: 'beds',
+      synonyms: [],
+      category: 'furniture',
+      hazard: 'info',
+      short: 'a bed',
+      long: 'A bed is present. This is furniture designed for sleeping and resting, typically consisting of a mattress on a frame with pillows.',
+    },
+    {
+      label: 'dining table',
+      name: 'dining table',
+      plural: 'dining tables',
+      synonyms: ['table', 'diningtable'],
+      category: 'furniture',
+      hazard: 'info',
+      short: 'a dining table',
+      long: 'A dining table is visible. This is furniture used for eating meals, where people sit around to share food and conversation.',
+    },
+    {
+      label: 'toilet',
+      name: 'toilet',
+      plural: 'toilets',
+      synonyms: [],
+      category: 'furniture',
+      hazard: 'info',
+      short: 'a toilet',
+      long: 'A toilet is detected. This is a plumbing fixture used for waste disposal, typically found in bathrooms and restrooms.',
+    },
+    {
+      label: 'tv',
+      name: 'TV',
+      plural: 'TVs',
+      synonyms: ['television', 'tvmonitor'],
+      category: 'electronics',
+      hazard: 'info',
+      short: 'a television',
+      long: 'A television is nearby. This is an electronic device with a screen that displays video content, news, movies, and entertainment programs.',
+    },
+    {
+      label: 'laptop',
+      name: 'laptop',
+      plural: 'laptops',
+      synonyms: ['notebook'],
+      category: 'electronics',
+      hazard: 'info',
+      short: 'a laptop',
+      long: 'A laptop is present. This is a portable computer that can be folded shut, allowing you to work, browse internet, or watch videos anywhere.',
+    },
+    {
+      label: 'mouse',
+      name: 'mouse',
+      plural: 'mice',
+      synonyms: ['computer mouse'],
+      category: 'electronics',
+      hazard: 'info',
+      short: 'a computer mouse',
+      long: 'A computer mouse is visible. This is a pointing device used to control the cursor on a computer screen by moving it on a surface.',
+    },
+    {
+      label: 'remote',
+      name: 'remote',
+      plural: 'remotes',
+      synonyms: ['remote control'],
+      category: 'electronics',
+      hazard: 'info',
+      short: 'a remote control',
+      long: 'A remote control is detected. This is a handheld device used to operate electronic equipment like televisions or stereos from a distance.',
+    },
+    {
+      label: 'keyboard',
+      name: 'keyboard',
+      plural: 'keyboards',
+      synonyms: [],
+      category: 'electronics',
+      hazard: 'info',
+      short: 'a keyboard',
+      long: 'A keyboard is nearby. This is an input device with keys for typing letters, numbers, and commands into a computer or device.',
+    },
+    {
+      label: 'cell phone',
+      name: 'cell phone',
+      plural: 'cell phones',
+      synonyms: ['mobile phone', 'phone'],
+      category: 'electronics',
+      hazard: 'info',
+      short: 'a cell phone',
+      long: 'A cell phone is present. This is a mobile communication device that allows you to make calls, send messages, and access the internet.',
+    },
+    {
+      label: 'microwave',
+      name: 'microwave',
+      plural: 'microwaves',
+      synonyms: [],
+      category: 'appliance',
+      hazard: 'info',
+      short: 'a microwave',
+      long: 'A microwave is visible. This is a kitchen appliance that heats food quickly using electromagnetic waves called microwaves.',
+    },
+    {
+      label: 'oven',
+      name: 'oven',
+      plural: 'ovens',
+      synonyms: [],
+      category: 'appliance',
+      hazard: 'caution',
+      short: 'an oven',
+      long: 'An oven is detected. This is a kitchen appliance used for baking, roasting, or heating food using dry heat in an enclosed space.',
+    },
+    {
+      label: 'toaster',
+      name: 'toaster',
+      plural: 'toasters',
+      synonyms: [],
+      category: 'appliance',
+      hazard: 'info',
+      short: 'a toaster',
+      long: 'A toaster is nearby. This is a small kitchen appliance designed to brown bread slices by exposing them to radiant heat.',
+    },
+    {
+      label: 'sink',
+      name: 'sink',
+      plural: 'sinks',
+      synonyms: [],
+      category: 'appliance',
+      hazard: 'info',
+      short: 'a sink',
+      long: 'A sink is present. This is a basin with faucets used for washing dishes, hands, or food preparation in kitchens and bathrooms.',
+    },
+    {
+      label: 'refrigerator',
+      name: 'refrigerator',
+      plural: 'refrigerators',
+      synonyms: ['fridge'],
+      category: 'appliance',
+      hazard: 'info',
+      short: 'a refrigerator',
+      long: 'A refrigerator is visible. This is a large kitchen appliance that keeps food and beverages cold and fresh for longer storage.',
+    },
+    {
+      label: 'book',
+      name: 'book',
+      plural: 'books',
+      synonyms: [],
+      category: 'household',
+      hazard: 'info',
+      short: 'a book',
+      long: 'A book is detected. This is a bound collection of printed pages containing written content like stories, information, or knowledge.',
+    },
+    {
+      label: 'clock',
+      name: 'clock',
+      plural: 'clocks',
+      synonyms: [],
+      category: 'household',
+      hazard: 'info',
+      short: 'a clock',
+      long: 'A clock is nearby. This is a device that displays the current time, helping people keep track of hours and minutes throughout the day.',
+    },
+    {
+      label: 'vase',
+      name: 'vase',
+      plural: 'vases',
+      synonyms: [],
+      category: 'household',
+      hazard: 'info',
+      short: 'a vase',
+      long: 'A vase is present. This is a decorative container, often made of glass or ceramic, typically used for holding flowers or as decoration.',
+    },
+    {
+      label: 'scissors',
+      name: 'scissors',
+      plural: 'pairs of scissors',
+      synonyms: [],
+      category: 'household',
+      hazard: 'caution',
+      short: 'scissors',
+      long: 'Scissors are visible. This is a cutting tool with two sharp blades that pivot against each other, used for cutting paper, fabric, or other materials.',
+    },
+    {
+      label: 'teddy bear',
+      name: 'teddy bear',
+      plural: 'teddy bears',
+      synonyms: [],
+      category: 'household',
+      hazard: 'info',
+      short: 'a teddy bear',
+      long: 'A teddy bear is detected. This is a soft stuffed toy designed to resemble a bear, commonly given to children for comfort and play.',
+    },
+    {
+      label: 'hair drier',
+      name: 'hair drier',
+      plural: 'hair driers',
+      synonyms: ['hair dryer'],
+      category: 'household',
+      hazard: 'info',
+      short: 'a hair dryer',
+      long: 'A hair dryer is nearby. This is an electrical device that blows hot air to dry wet hair quickly after washing or styling.',
+    },
+    {
+      label: 'toothbrush',
+      name: 'toothbrush',
+      plural: 'toothbrushes',
+      synonyms: [],
+      category: 'household',
+      hazard: 'info',
+      short: 'a toothbrush',
+      long: 'A toothbrush is present. This is a small brush with bristles used for cleaning teeth and maintaining oral hygiene, typically used with toothpaste.',
+    },
+  ],
+};
+
+export default catalog;
@@ -0,0 +1,812 @@
+import type { ObjectCatalog } from '@/lib/catalog/schema';
+
+// Hindi descriptions for the 80 COCO classes. Labels, synonyms, categories and hazard levels mirror en.ts;
+// only the wording is translated.
+const catalog: ObjectCatalog = {
+  version: 3,
+  locale: 'hi',
+  entries: [
+    {
+      label: 'person',
+      name: 'व्यक्ति',
+      plural: 'व्यक्ति',
+      synonyms: [],
+      category: 'person',
+      hazard: 'info',
+      short: 'एक व्यक्ति',
+      long: 'आपके सामने एक व्यक्ति दिखाई दे रहा है। वह चल रहा हो सकता है, खड़ा हो सकता है या आपके आसपास घूम रहा हो सकता है।',
+    },
+    {
+      label: 'bicycle',
+      name: 'साइकिल',
+      plural: 'साइकिलें',
+      synonyms: [],
+      category: 'vehicle',
+      hazard: 'caution',
+      short: 'एक साइकिल',
+      long: 'पास में एक साइकिल है। यह पैडल से चलने वाला दोपहिया वाहन है जो तेज़ी से आ सकता है।',
+    },
+    {
+      label: 'car',
+      name: 'कार',
+      plural: 'कारें',
+      synonyms: [],
+      category: 'vehicle',
+      hazard: 'danger',
+      short: 'एक कार',
+      long: 'दृश्य में एक कार है। यह सड़क पर चलने वाला चार पहियों का मोटर वाहन है।',
+    },
+    {
+      label: 'motorcycle',
+      name: 'मोटरसाइकिल',
+      plural: 'मोटरसाइकिलें',
+      synonyms: ['motorbike'],
+      category: 'vehicle',
+      hazard: 'danger',
+      short: 'एक मोटरसाइकिल',
+      long: 'एक मोटरसाइकिल दिखाई दे रही है। यह इंजन वाला दोपहिया वाहन है जो साइकिल से कहीं तेज़ चलता है।',
+    },
+    {
+      label: 'airplane',
+      name: 'हवाई जहाज़',
+      plural: 'हवाई जहाज़',
+      synonyms: ['aeroplane'],
+      category: 'vehicle',
+      hazard: 'info',
+      short: 'एक हवाई जहाज़',
+      long: 'एक हवाई जहाज़ दिखाई दे रहा है। यह आमतौर पर ऊपर आकाश में या हवाई अड्डे पर होता है।',
+    },
+    {
+      label: 'bus',
+      name: 'बस',
+      plural: 'बसें',
+      synonyms: [],
+      category: 'vehicle',
+      hazard: 'danger',
+      short: 'एक बस',
+      long: 'एक बस पास में है। यह कई यात्रियों को ले जाने वाला बड़ा वाहन है और अक्सर बस स्टॉप पर रुकता है।',
+    },
+    {
+      label: 'train',
+      name: 'ट्रेन',
+      plural: 'ट्रेनें',
+      synonyms: [],
+      category: 'vehicle',
+      hazard: 'danger',
+      short: 'एक ट्रेन',
+      long: 'एक ट्रेन दिखाई दे रही है। यह पटरियों पर चलती है; पटरियों से सुरक्षित दूरी बनाए रखें।',
+    },
+    {
+      label: 'truck',
+      name: 'ट्रक',
+      plural: 'ट्रक',
+      synonyms: [],
+      category: 'vehicle',
+      hazard: 'danger',
+      short: 'एक ट्रक',
+      long: 'एक ट्रक पास में है। यह सामान ढोने वाला बड़ा वाहन है और इसे मुड़ने के लिए ज़्यादा जगह चाहिए।',
+    },
+    {
+      label: 'boat',
+      name: 'नाव',
+      plural: 'नावें',
+      synonyms: [],
+      category: 'vehicle',
+      hazard: 'info',
+      short: 'एक नाव',
+      long: 'एक नाव दिखाई दे रही है, जिसका मतलब है कि पास में पानी हो सकता है।',
+    },
+    {
+      label: 'traffic light',
+      name: 'ट्रैफ़िक लाइट',
+      plural: 'ट्रैफ़िक लाइटें',
+      synonyms: [],
+      category: 'street',
+      hazard: 'info',
+      short: 'एक ट्रैफ़िक लाइट',
+      long: 'एक ट्रैफ़िक लाइट दिखाई दे रही है। आप शायद किसी चौराहे या सड़क पार करने की जगह के पास हैं।',
+    },
+    {
+      label: 'fire hydrant',
+      name: 'फ़ायर हाइड्रेंट',
+      plural: 'फ़ायर हाइड्रेंट',
+      synonyms: [],
+      category: 'street',
+      hazard: 'caution',
+      short: 'एक फ़ायर हाइड्रेंट',
+      long: 'फुटपाथ पर एक फ़ायर हाइड्रेंट है। यह नीचा होता है और इससे ठोकर लग सकती है।',
+    },
+    {
+      label: 'stop sign',
+      name: 'स्टॉप साइन',
+      plural: 'स्टॉप साइन',
+      synonyms: [],
+      category: 'street',
+      hazard: 'info',
+      short: 'एक स्टॉप साइन',
+      long: 'एक स्टॉप साइन दिखाई दे रहा है। यहाँ वाहनों को रुकना होता है, इसलिए आप किसी चौराहे के पास हैं।',
+    },
+    {
+      label: 'parking meter',
+      name: 'पार्किंग मीटर',
+      plural: 'पार्किंग मीटर',
+      synonyms: [],
+      category: 'street',
+      hazard: 'info',
+      short: 'एक पार्किंग मीटर',
+      long: 'फुटपाथ के किनारे एक पार्किंग मीटर है। यह एक पतला खंभा है जिससे टकराया जा सकता है।',
+    },
+    {
+      label: 'bench',
+      name: 'बेंच',
+      plural: 'बेंच',
+      synonyms: [],
+      category: 'street',
+      hazard: 'info',
+      short: 'एक बेंच',
+      long: 'एक बेंच पास में है। यहाँ बैठकर आराम किया जा सकता है।',
+    },
+    {
+      label: 'bird',
+      name: 'पक्षी',
+      plural: 'पक्षी',
+      synonyms: [],
+      category: 'animal',
+      hazard: 'info',
+      short: 'एक पक्षी',
+      long: 'एक पक्षी दिखाई दे रहा है। यह ज़मीन पर, किसी पेड़ पर या उड़ता हुआ हो सकता है।',
+    },
+    {
+      label: 'cat',
+      name: 'बिल्ली',
+      plural: 'बिल्लियाँ',
+      synonyms: [],
+      category: 'animal',
+      hazard: 'info',
+      short: 'एक बिल्ली',
+      long: 'एक बिल्ली पास में है। यह छोटा पालतू जानवर है जो अचानक आपके रास्ते में आ सकता है।',
+    },
+    {
+      label: 'dog',
+      name: 'कुत्ता',
+      plural: 'कुत्ते',
+      synonyms: [],
+      category: 'animal',
+      hazard: 'info',
+      short: 'एक कुत्ता',
+      long: 'एक कुत्ता पास में है। यह पालतू हो सकता है; अचानक हरकत से बचें।',
+    },
+    {
+      label: 'horse',
+      name: 'घोड़ा',
+      plural: 'घोड़े',
+      synonyms: [],
+      category: 'animal',
+      hazard: 'info',
+      short: 'एक घोड़ा',
+      long: 'एक घोड़ा दिखाई दे रहा है। यह बड़ा जानवर है; इसके पीछे खड़े न हों।',
+    },
+    {
+      label: 'sheep',
+      name: 'भेड़',
+      plural: 'भेड़ें',
+      synonyms: [],
+      category: 'animal',
+      hazard: 'info',
+      short: 'एक भेड़',
+      long: 'एक भेड़ दिखाई दे रही है। आप शायद किसी खेत या चरागाह के पास हैं।',
+    },
+    {
+      label: 'cow',
+      name: 'गाय',
+      plural: 'गायें',
+      synonyms: [],
+      category: 'animal',
+      hazard: 'info',
+      short: 'एक गाय',
+      long: 'एक गाय दिखाई दे रही है। यह बड़ा जानवर है जो सड़क पर भी हो सकता है।',
+    },
+    {
+      label: 'elephant',
+      name: 'हाथी',
+      plural: 'हाथी',
+      synonyms: [],
+      category: 'animal',
+      hazard: 'info',
+      short: 'एक हाथी',
+      long: 'एक हाथी दिखाई दे रहा है। यह बहुत बड़ा जानवर है; दूरी बनाए रखें।',
+    },
+    {
+      label: 'bear',
+      name: 'भालू',
+      plural: 'भालू',
+      synonyms: [],
+      category: 'animal',
+      hazard: 'danger',
+      short: 'एक भालू',
+      long: 'एक भालू दिखाई दे रहा है। यह खतरनाक हो सकता है; शांत रहें और धीरे-धीरे दूर जाएँ।',
+    },
+    {
+      label: 'zebra',
+      name: 'ज़ेबरा',
+      plural: 'ज़ेबरा',
+      synonyms: [],
+      category: 'animal',
+      hazard: 'info',
+      short: 'एक ज़ेबरा',
+      long: 'एक ज़ेबरा दिखाई दे रहा है। यह धारियों वाला जंगली जानवर है।',
+    },
+    {
+      label: 'giraffe',
+      name: 'जिराफ़',
+      plural: 'जिराफ़',
+      synonyms: [],
+      category: 'animal',
+      hazard: 'info',
+      short: 'एक जिराफ़',
+      long: 'एक जिराफ़ दिखाई दे रहा है। यह बहुत लंबी गर्दन वाला ऊँचा जानवर है।',
+    },
+    {
+      label: 'backpack',
+      name: 'बैकपैक',
+      plural: 'बैकपैक',
+      synonyms: [],
+      category: 'accessory',
+      hazard: 'info',
+      short: 'एक बैकपैक',
+      long: 'एक बैकपैक दिखाई दे रहा है। यह किसी के कंधे पर या ज़मीन पर रखा हो सकता है।',
+    },
+    {
+      label: 'umbrella',
+      name: 'छाता',
+      plural: 'छाते',
+      synonyms: [],
+      category: 'accessory',
+      hazard: 'info',
+      short: 'एक छाता',
+      long: 'एक छाता दिखाई दे रहा है। इसकी तीलियाँ सिर की ऊँचाई पर हो सकती हैं।',
+    },
+    {
+      label: 'handbag',
+      name: 'हैंडबैग',
+      plural: 'हैंडबैग',
+      synonyms: [],
+      category: 'accessory',
+      hazard: 'info',
+      short: 'एक हैंडबैग',
+      long: 'एक हैंडबैग दिखाई दे रहा है। यह किसी के पास या किसी सतह पर रखा हो सकता है।',
+    },
+    {
+      label: 'tie',
+      name: 'टाई',
+      plural: 'टाई',
+      synonyms: ['necktie'],
+      category: 'accessory',
+      hazard: 'info',
+      short: 'एक टाई',
+      long: 'एक टाई दिखाई दे रही है, शायद किसी व्यक्ति ने पहनी है।',
+    },
+    {
+      label: 'suitcase',
+      name: 'सूटकेस',
+      plural: 'सूटकेस',
+      synonyms: [],
+      category: 'accessory',
+      hazard: 'info',
+      short: 'एक सूटकेस',
+      long: 'एक सूटकेस दिखाई दे रहा है। ज़मीन पर रखे सामान से ठोकर लग सकती है।',
+    },
+    {
+      label: 'frisbee',
+      name: 'फ़्रिस्बी',
+      plural: 'फ़्रिस्बी',
+      synonyms: [],
+      category: 'sports',
+      hazard: 'info',
+      short: 'एक फ़्रिस्बी',
+      long: 'एक फ़्रिस्बी दिखाई दे रही है। यह हवा में उड़ती हुई आ सकती है।',
+    },
+    {
+      label: 'skis',
+      name: 'स्की',
+      plural: 'स्की',
+      synonyms: [],
+      category: 'sports',
+      hazard: 'info',
+      short: 'स्की',
+      long: 'स्की की एक जोड़ी दिखाई दे रही है।',
+    },
+    {
+      label: 'snowboard',
+      name: 'स्नोबोर्ड',
+      plural: 'स्नोबोर्ड',
+      synonyms: [],
+      category: 'sports',
+      hazard: 'info',
+      short: 'एक स्नोबोर्ड',
+      long: 'एक स्नोबोर्ड दिखाई दे रहा है।',
+    },
+    {
+      label: 'sports ball',
+      name: 'गेंद',
+      plural: 'गेंदें',
+      synonyms: ['ball'],
+      category: 'sports',
+      hazard: 'info',
+      short: 'एक गेंद',
+      long: 'एक गेंद दिखाई दे रही है। यह लुढ़कती या उड़ती हुई आपकी ओर आ सकती है।',
+    },
+    {
+      label: 'kite',
+      name: 'पतंग',
+      plural: 'पतंगें',
+      synonyms: [],
+      category: 'sports',
+      hazard: 'info',
+      short: 'एक पतंग',
+      long: 'आकाश में एक पतंग दिखाई दे रही है।',
+    },
+    {
+      label: 'baseball bat',
+      name: 'बेसबॉल बैट',
+      plural: 'बेसबॉल बैट',
+      synonyms: [],
+      category: 'sports',
+      hazard: 'info',
+      short: 'एक बेसबॉल बैट',
+      long: 'एक बेसबॉल बैट दिखाई दे रहा है। अगर कोई इसे घुमा रहा है तो दूरी रखें।',
+    },
+    {
+      label: 'baseball glove',
+      name: 'बेसबॉल दस्ताना',
+      plural: 'बेसबॉल दस्ताने',
+      synonyms: [],
+      category: 'sports',
+      hazard: 'info',
+      short: 'एक बेसबॉल दस्ताना',
+      long: 'एक बेसबॉल दस्ताना दिखाई दे रहा है।',
+    },
+    {
+      label: 'skateboard',
+      name: 'स्केटबोर्ड',
+      plural: 'स्केटबोर्ड',
+      synonyms: [],
+      category: 'sports',
+      hazard: 'info',
+      short: 'एक स्केटबोर्ड',
+      long: 'एक स्केटबोर्ड दिखाई दे रहा है। यह तेज़ी से आ सकता है या ज़मीन पर पड़ा हो सकता है।',
+    },
+    {
+      label: 'surfboard',
+      name: 'सर्फ़बोर्ड',
+      plural: 'सर्फ़बोर्ड',
+      synonyms: [],
+      category: 'sports',
+      hazard: 'info',
+      short: 'एक सर्फ़बोर्ड',
+      long: 'एक सर्फ़बोर्ड दिखाई दे रहा है। यह लंबा होता है और इसे ले जाता व्यक्ति अचानक मुड़ सकता है।',
+    },
+    {
+      label: 'tennis racket',
+      name: 'टेनिस रैकेट',
+      plural: 'टेनिस रैकेट',
+      synonyms: [],
+      category: 'sports',
+      hazard: 'info',
+      short: 'एक टेनिस रैकेट',
+      long: 'एक टेनिस रैकेट दिखाई दे रहा है।',
+    },
+    {
+      label: 'bottle',
+      name: 'बोतल',
+      plural: 'बोतलें',
+      synonyms: [],
+      category: 'kitchen',
+      hazard: 'info',
+      short: 'एक बोतल',
+      long: 'एक बोतल दिखाई दे रही है। इसमें पानी या कोई और पेय हो सकता है।',
+    },
+    {
+      label: 'wine glass',
+      name: 'वाइन ग्लास',
+      plural: 'वाइन ग्लास',
+      synonyms: [],
+      category: 'kitchen',
+      hazard: 'info',
+      short: 'एक वाइन ग्लास',
+      long: 'एक वाइन ग्लास दिखाई दे रहा है। यह नाज़ुक होता है; सावधानी से हाथ बढ़ाएँ।',
+    },
+    {
+      label: 'cup',
+      name: 'कप',
+      plural: 'कप',
+      synonyms: [],
+      category: 'kitchen',
+      hazard: 'info',
+      short: 'एक कप',
+      long: 'एक कप दिखाई दे रहा है। इसमें गर्म पेय हो सकता है।',
+    },
+    {
+      label: 'fork',
+      name: 'काँटा',
+      plural: 'काँटे',
+      synonyms: [],
+      category: 'kitchen',
+      hazard: 'info',
+      short: 'एक काँटा',
+      long: 'खाने का एक काँटा दिखाई दे रहा है।',
+    },
+    {
+      label: 'knife',
+      name: 'चाकू',
+      plural: 'चाकू',
+      synonyms: [],
+      category: 'kitchen',
+      hazard: 'caution',
+      short: 'एक चाकू',
+      long: 'एक चाकू दिखाई दे रहा है। इसकी धार तेज़ हो सकती है; सावधानी से पकड़ें।',
+    },
+    {
+      label: 'spoon',
+      name: 'चम्मच',
+      plural: 'चम्मच',
+      synonyms: [],
+      category: 'kitchen',
+      hazard: 'info',
+      short: 'एक चम्मच',
+      long: 'एक चम्मच दिखाई दे रहा है।',
+    },
+    {
+      label: 'bowl',
+      name: 'कटोरा',
+      plural: 'कटोरे',
+      synonyms: [],
+      category: 'kitchen',
+      hazard: 'info',
+      short: 'एक कटोरा',
+      long: 'एक कटोरा दिखाई दे रहा है। इसमें खाना या तरल हो सकता है।',
+    },
+    {
+      label: 'banana',
+      name: 'केला',
+      plural: 'केले',
+      synonyms: [],
+      category: 'food',
+      hazard: 'info',
+      short: 'एक केला',
+      long: 'एक केला दिखाई दे रहा है।',
+    },
+    {
+      label: 'apple',
+      name: 'सेब',
+      plural: 'सेब',
+      synonyms: [],
+      category: 'food',
+      hazard: 'info',
+      short: 'एक सेब',
+      long: 'एक सेब दिखाई दे रहा है।',
+    },
+    {
+      label: 'sandwich',
+      name: 'सैंडविच',
+      plural: 'सैंडविच',
+      synonyms: [],
+      category: 'food',
+      hazard: 'info',
+      short: 'एक सैंडविच',
+      long: 'एक सैंडविच दिखाई दे रहा है।',
+    },
+    {
+      label: 'orange',
+      name: 'संतरा',
+      plural: 'संतरे',
+      synonyms: [],
+      category: 'food',
+      hazard: 'info',
+      short: 'एक संतरा',
+      long: 'एक संतरा दिखाई दे रहा है।',
+    },
+    {
+      label: 'broccoli',
+      name: 'ब्रोकली',
+      plural: 'ब्रोकली',
+      synonyms: [],
+      category: 'food',
+      hazard: 'info',
+      short: 'ब्रोकली',
+      long: 'ब्रोकली दिखाई दे रही है।',
+    },
+    {
+      label: 'carrot',
+      name: 'गाजर',
+      plural: 'गाजरें',
+      synonyms: [],
+      category: 'food',
+      hazard: 'info',
+      short: 'एक गाजर',
+      long: 'एक गाजर दिखाई दे रही है।',
+    },
+    {
+      label: 'hot dog',
+      name: 'हॉट डॉग',
+      plural: 'हॉट डॉग',
+      synonyms: [],
+      category: 'food',
+      hazard: 'info',
+      short: 'एक हॉट डॉग',
+      long: 'एक हॉट डॉग दिखाई दे रहा है।',
+    },
+    {
+      label: 'pizza',
+      name: 'पिज़्ज़ा',
+      plural: 'पिज़्ज़ा',
+      synonyms: [],
+      category: 'food',
+      hazard: 'info',
+      short: 'एक पिज़्ज़ा',
+      long: 'एक पिज़्ज़ा दिखाई दे रहा है।',
+    },
+    {
+      label: 'donut',
+      name: 'डोनट',
+      plural: 'डोनट',
+      synonyms: [],
+      category: 'food',
+      hazard: 'info',
+      short: 'एक डोनट',
+      long: 'एक डोनट दिखाई दे रहा है।',
+    },
+    {
+      label: 'cake',
+      name: 'केक',
+      plural: 'केक',
+      synonyms: [],
+      category: 'food',
+      hazard: 'info',
+      short: 'एक केक',
+      long: 'एक केक दिखाई दे रहा है।',
+    },
+    {
+      label: 'chair',
+      name: 'कुर्सी',
+      plural: 'कुर्सियाँ',
+      synonyms: [],
+      category: 'furniture',
+      hazard: 'info',
+      short: 'एक कुर्सी',
+      long: 'एक कुर्सी पास में है। यहाँ बैठा जा सकता है, पर इससे टकराया भी जा सकता है।',
+    },
+    {
+      label: 'couch',
+      name: 'सोफ़ा',
+      plural: 'सोफ़े',
+      synonyms: ['sofa'],
+      category: 'furniture',
+      hazard: 'info',
+      short: 'एक सोफ़ा',
+      long: 'एक सोफ़ा दिखाई दे रहा है। यह बैठने के लिए बड़ा, आरामदायक फ़र्नीचर है।',
+    },
+    {
+      label: 'potted plant',
+      name: 'गमले का पौधा',
+      plural: 'गमले के पौधे',
+      synonyms: ['pottedplant', 'plant'],
+      category: 'furniture',
+      hazard: 'info',
+      short: 'एक गमले का पौधा',
+      long: 'गमले में लगा एक पौधा दिखाई दे रहा है। फ़र्श पर रखा गमला रास्ते में आ सकता है।',
+    },
+    {
+      label: 'bed',
+      name: 'बिस्तर',
+      plural: 'बिस्तर',
+      synonyms: [],
+      category: 'furniture',
+      hazard: 'info',
+      short: 'एक बिस्तर',
+      long: 'एक बिस्तर दिखाई दे रहा है। आप शायद शयनकक्ष में हैं।',
+    },
+    {
+      label: 'dining table',
+      name: 'खाने की मेज़',
+      plural: 'खाने की मेज़ें',
+      synonyms: ['table', 'diningtable'],
+      category: 'furniture',
+      hazard: 'info',
+      short: 'एक खाने की मेज़',
+      long: 'खाने की एक मेज़ दिखाई दे रही है। इसके किनारे और आसपास कुर्सियाँ हो सकती हैं।',
+    },
+    {
+      label: 'toilet',
+      name: 'शौचालय',
+      plural: 'शौचालय',
+      synonyms: [],
+      category: 'furniture',
+      hazard: 'info',
+      short: 'एक शौचालय',
+      long: 'एक शौचालय दिखाई दे रहा है। आप शायद बाथरूम में हैं।',
+    },
+    {
+      label: 'tv',
+      name: 'टीवी',
+      plural: 'टीवी',
+      synonyms: ['television', 'tvmonitor'],
+      category: 'electronics',
+      hazard: 'info',
+      short: 'एक टीवी',
+      long: 'एक टीवी दिखाई दे रहा है। यह दीवार पर या किसी स्टैंड पर हो सकता है।',
+    },
+    {
+      label: 'laptop',
+      name: 'लैपटॉप',
+      plural: 'लैपटॉप',
+      synonyms: ['notebook'],
+      category: 'electronics',
+      hazard: 'info',
+      short: 'एक लैपटॉप',
+      long: 'एक लैपटॉप दिखाई दे रहा है, शायद किसी मेज़ पर।',
+    },
+    {
+      label: 'mouse',
+      name: 'माउस',
+      plural: 'माउस',
+      synonyms: ['computer mouse'],
+      category: 'electronics',
+      hazard: 'info',
+      short: 'एक माउस',
+      long: 'कंप्यूटर का एक माउस दिखाई दे रहा है।',
+    },
+    {
+      label: 'remote',
+      name: 'रिमोट',
+      plural: 'रिमोट',
+      synonyms: ['remote control'],
+      category: 'electronics',
+      hazard: 'info',
+      short: 'एक रिमोट',
+      long: 'एक रिमोट कंट्रोल दिखाई दे रहा है।',
+    },
+    {
+      label: 'keyboard',
+      name: 'कीबोर्ड',
+      plural: 'कीबोर्ड',
+      synonyms: [],
+      category: 'electronics',
+      hazard: 'info',
+      short: 'एक कीबोर्ड',
+      long: 'एक कीबोर्ड दिखाई दे रहा है।',
+    },
+    {
+      label: 'cell phone',
+      name: 'मोबाइल फ़ोन',
+      plural: 'मोबाइल फ़ोन',
+      synonyms: ['mobile phone', 'phone'],
+      category: 'electronics',
+      hazard: 'info',
+      short: 'एक मोबाइल फ़ोन',
+      long: 'एक मोबाइल फ़ोन दिखाई दे रहा है।',
+    },
+    {
+      label: 'microwave',
+      name: 'माइक्रोवेव',
+      plural: 'माइक्रोवेव',
+      synonyms: [],
+      category: 'appliance',
+      hazard: 'info',
+      short: 'एक माइक्रोवेव',
+      long: 'एक माइक्रोवेव दिखाई दे रहा है। आप शायद रसोई में हैं।',
+    },
+    {
+      label: 'oven',
+      name: 'ओवन',
+      plural: 'ओवन',
+      synonyms: [],
+      category: 'appliance',
+      hazard: 'caution',
+      short: 'एक ओवन',
+      long: 'एक ओवन दिखाई दे रहा है। यह गर्म हो सकता है; सावधानी से छुएँ।',
+    },
+    {
+      label: 'toaster',
+      name: 'टोस्टर',
+      plural: 'टोस्टर',
+      synonyms: [],
+      category: 'appliance',
+      hazard: 'info',
+      short: 'एक टोस्टर',
+      long: 'एक टोस्टर दिखाई दे रहा है।',
+    },
+    {
+      label: 'sink',
+      name: 'सिंक',
+      plural: 'सिंक',
+      synonyms: [],
+      category: 'appliance',
+      hazard: 'info',
+      short: 'एक सिंक',
+      long: 'एक सिंक दिखाई दे रहा है, जहाँ पानी का नल होता है।',
+    },
+    {
+      label: 'refrigerator',
+      name: 'फ़्रिज',
+      plural: 'फ़्रिज',
+      synonyms: ['fridge'],
+      category: 'appliance',
+      hazard: 'info',
+      short: 'एक फ़्रिज',
+      long: 'एक फ़्रिज दिखाई दे रहा है। आप शायद रसोई में हैं।',
+    },
+    {
+      label: 'book',
+      name: 'किताब',
+      plural: 'किताबें',
+      synonyms: [],
+      category: 'household',
+      hazard: 'info',
+      short: 'एक किताब',
+      long: 'एक किताब दिखाई दे रही है।',
+    },
+    {
+      label: 'clock',
+      name: 'घड़ी',
+      plural: 'घड़ियाँ',
+      synonyms: [],
+      category: 'household',
+      hazard: 'info',
+      short: 'एक घड़ी',
+      long: 'एक घड़ी दिखाई दे रही है, शायद दीवार पर।',
+    },
+    {
+      label: 'vase',
+      name: 'फूलदान',
+      plural: 'फूलदान',
+      synonyms: [],
+      category: 'household',
+      hazard: 'info',
+      short: 'एक फूलदान',
+      long: 'एक फूलदान दिखाई दे रहा है। यह नाज़ुक हो सकता है।',
+    },
+    {
+      label: 'scissors',
+      name: 'कैंची',
+      plural: 'कैंचियाँ',
+      synonyms: [],
+      category: 'household',
+      hazard: 'caution',
+      short: 'एक कैंची',
+      long: 'एक कैंची दिखाई दे रही है। इसकी धार तेज़ हो सकती है।',
+    },
+    {
+      label: 'teddy bear',
+      name: 'टेडी बियर',
+      plural: 'टेडी बियर',
+      synonyms: [],
+      category: 'household',
+      hazard: 'info',
+      short: 'एक टेडी बियर',
+      long: 'एक टेडी बियर दिखाई दे रहा है, जो मुलायम खिलौना है।',
+    },
+    {
+      label: 'hair drier',
+      name: 'हेयर ड्रायर',
+      plural: 'हेयर ड्रायर',
+      synonyms: ['hair dryer'],
+      category: 'household',
+      hazard: 'info',
+      short: 'एक हेयर ड्रायर',
+      long: 'एक हेयर ड्रायर दिखाई दे रहा है।',
+    },
+    {
+      label: 'toothbrush',
+      name: 'टूथब्रश',
+      plural: 'टूथब्रश',
+      synonyms: [],
+      category: 'household',
+      hazard: 'info',
+      short: 'एक टूथब्रश',
+      long: 'एक टूथब्रश दिखाई दे रहा है।',
+    },
+  ],
+};
+
+export default catalog;
@@ -0,0 +1,8 @@
+import { useState, useSyncExternalStore } from 'react';
+import { createAnnouncementHistory } from '@/lib/announcements/history';
+
+export function useAnnouncementHistory(limit?: number) {
+  const [history] = useState(() => createAnnouncementHistory(limit));
+  const state = useSyncExternalStore(history.subscribe, history.getState);
+  return { history, state };
+}
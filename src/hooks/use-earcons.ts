@@ -0,0 +1,12 @@
+import { useEffect, useState } from 'react';
+import { createEarconPlayer } from '@/lib/audio/earcons';
+
+export function useEarcons() {
+  const [player] = useState(createEarconPlayer);
+
+  useEffect(() => {
+    return () => player.dispose();
+  }, [player]);
+
+  return player;
+}
@@ -0,0 +1,24 @@
+import { useCallback, useRef, useState } from 'react';
+import type { SpeechPriority } from '@/lib/speech/queue';
+
+export interface LiveMessage {
+  id: number;
+  text: string;
+  priority: SpeechPriority;
+}
+
+// Enough for a screen reader to catch up after a burst, small enough to keep the DOM light
+const LIVE_MESSAGE_LIMIT = 10;
+
+// Messages for the ARIA live regions; a new id per message so repeats of the same text are read again
+export function useLiveAnnouncer() {
+  const [messages, setMessages] = useState<LiveMessage[]>([]);
+  const nextId = useRef(0);
+
+  const announce = useCallback((text: string, priority: SpeechPriority) => {
+    const message = { id: nextId.current++, text, priority };
+    setMessages(current => [...current, message].slice(-LIVE_MESSAGE_LIMIT));
+  }, []);
+
+  return { messages, announce };
+}
@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  applyOverrides,
+  areOverridesStale,
+  createCatalogLookup,
+  loadCatalog,
+  loadOverrides,
+  saveOverrides,
+} from '@/lib/catalog/catalog';
+import type { CatalogEntry, CatalogOverrides, ObjectCatalog, StoredOverrides } from '@/lib/catalog/schema';
+
+export type CatalogEdit = Partial<Pick<CatalogEntry, 'name' | 'plural' | 'short' | 'long' | 'synonyms'>>;
+
+export function useObjectCatalog(locale: string) {
+  const [baseCatalog, setBaseCatalog] = useState<ObjectCatalog | null>(null);
+  const [stored, setStored] = useState<StoredOverrides | null>(() => loadOverrides(locale));
+  const overrides = useMemo(() => stored?.overrides ?? {}, [stored]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setStored(loadOverrides(locale));
+    loadCatalog(locale)
+      .then(catalog => {
+        if (!cancelled) setBaseCatalog(catalog);
+      })
+      .catch(error => console.error('Failed to load object catalog:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [locale]);
+
+  const catalog = useMemo(
+    () => (baseCatalog ? applyOverrides(baseCatalog, overrides) : null),
+    [baseCatalog, overrides],
+  );
+  const lookup = useMemo(() => createCatalogLookup(catalog), [catalog]);
+  const staleOverrides = !!baseCatalog && areOverridesStale(stored, baseCatalog);
+
+  // Edits keep the version they were first written against until the caregiver confirms them
+  const updateOverrides = useCallback((update: (current: CatalogOverrides) => CatalogOverrides) => {
+    if (!baseCatalog) return;
+    setStored(current => {
+      const next = {
+        catalogVersion: current?.catalogVersion ?? baseCatalog.version,
+        overrides: update(current?.overrides ?? {}),
+      };
+      saveOverrides(locale, next);
+      return next;
+    });
+  }, [locale, baseCatalog]);
+
+  // Marks the current edits as checked against this version of the catalog
+  const confirmOverrides = useCallback(() => {
+    if (!baseCatalog) return;
+    setStored(current => {
+      if (!current) return current;
+      const next = { ...current, catalogVersion: baseCatalog.version };
+      saveOverrides(locale, next);
+      return next;
+    });
+  }, [locale, baseCatalog]);
+
+  const editEntry = useCallback((label: string, edit: CatalogEdit) => {
+    updateOverrides(current => ({ ...current, [label]: { ...current[label], ...edit } }));
+  }, [updateOverrides]);
+
+  const resetEntry = useCallback((label: string) => {
+    updateOverrides(({ [label]: _removed, ...rest }) => rest);
+  }, [updateOverrides]);
+
+  return { catalog, baseCatalog, overrides, staleOverrides, lookup, editEntry, resetEntry, confirmOverrides };
+}
@@ -0,0 +1,9 @@
+import { useState, useSyncExternalStore } from 'react';
+import { createSettingsStore, getActiveProfile } from '@/lib/settings/store';
+
+export function useSettingsStore() {
+  const [store] = useState(() => createSettingsStore());
+  const state = useSyncExternalStore(store.subscribe, store.getState);
+  const profile = getActiveProfile(state);
+  return { store, state, profile, preferences: profile.preferences };
+}
@@ -0,0 +1,18 @@
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import { createSpeechQueue, type SpeechQueueOptions } from '@/lib/speech/queue';
+
+export function useSpeechQueue(configure?: SpeechQueueOptions['configure']) {
+  const [queue] = useState(() => createSpeechQueue({ configure }));
+  const state = useSyncExternalStore(queue.subscribe, queue.getState);
+
+  useEffect(() => {
+    queue.setConfigure(configure);
+  }, [queue, configure]);
+
+  // Nothing should keep talking after the component is gone
+  useEffect(() => {
+    return () => queue.cancelAll();
+  }, [queue]);
+
+  return { queue, state };
+}
@@ -0,0 +1,30 @@
+import { useCallback, useState } from 'react';
+import {
+  DEFAULT_SPEECH_SETTINGS,
+  loadSpeechSettings,
+  saveSpeechSettings,
+  type SpeechSettings,
+} from '@/lib/speech/settings';
+
+export function useSpeechSettings() {
+  const [settings, setSettings] = useState<SpeechSettings>(loadSpeechSettings);
+
+  const updateSettings = useCallback((update: Partial<SpeechSettings>) => {
+    setSettings(current => {
+      const next = { ...current, ...update };
+      saveSpeechSettings(next);
+      return next;
+    });
+  }, []);
+
+  // Resets the voice; the camera calibration is not a speech setting and is kept
+  const resetSettings = useCallback(() => {
+    setSettings(current => {
+      const next = { ...DEFAULT_SPEECH_SETTINGS, horizontalFov: current.horizontalFov };
+      saveSpeechSettings(next);
+      return next;
+    });
+  }, []);
+
+  return { settings, updateSettings, resetSettings };
+}
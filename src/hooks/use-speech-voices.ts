@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+
+// Installed voices; most browsers fill the list asynchronously and announce it with voiceschanged
+export function useSpeechVoices() {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>(() =>
+    'speechSynthesis' in window ? speechSynthesis.getVoices() : [],
+  );
+
+  useEffect(() => {
+    if (!('speechSynthesis' in window)) return;
+    const update = () => setVoices(speechSynthesis.getVoices());
+    update();
+    speechSynthesis.addEventListener('voiceschanged', update);
+    return () => speechSynthesis.removeEventListener('voiceschanged', update);
+  }, []);
+
+  return voices;
+}
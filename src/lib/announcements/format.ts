@@ -0,0 +1,47 @@
+import type { CatalogEntry } from '@/lib/catalog/schema';
+import { capitalize, joinList, type Translate } from '@/lib/i18n/translator';
+import { describeGroup, groupByClass, summarizeScene } from './summary';
+
+export const VERBOSITY_LEVELS = ['label', 'short', 'detailed'] as const;
+
+export type Verbosity = (typeof VERBOSITY_LEVELS)[number];
+
+export interface AnnouncementItem {
+  // Localized wording, category and hazard level for the detected class
+  entry: CatalogEntry;
+  // "on your left, about 2 metres away"
+  location: string;
+  // Direction only ("on your left"); objects sharing it are grouped in summaries
+  region: string;
+  // "about 2 metres away", when the class has a known size
+  distance: string | null;
+  metres: number | null;
+}
+
+export const nextVerbosity = (current: Verbosity): Verbosity =>
+  VERBOSITY_LEVELS[(VERBOSITY_LEVELS.indexOf(current) + 1) % VERBOSITY_LEVELS.length];
+
+// Builds one spoken announcement for the newly selected objects. A single object is described on
+// its own; several are summarized by class and direction, nearest and most hazardous first.
+export const formatAnnouncement = (items: AnnouncementItem[], verbosity: Verbosity, t: Translate): string => {
+  if (verbosity === 'label') {
+    const names = groupByClass(items).map(group =>
+      group.items.length === 1 ? group.items[0].entry.name : describeGroup(group, t),
+    );
+    return capitalize(t('announce.labels', { labels: joinList(names, t) }));
+  }
+
+  if (items.length === 1) {
+    const [{ entry, location }] = items;
+    return verbosity === 'short'
+      ? capitalize(t('announce.short', { name: entry.short, location }))
+      : t('announce.detailedOne', { location: capitalize(location), description: entry.long });
+  }
+
+  const summary = summarizeScene(items, t);
+  if (verbosity === 'short') return summary;
+
+  // Detailed: the summary, then the full description of whatever matters most
+  const [first] = groupByClass(items)[0].items;
+  return `${summary} ${t('announce.detailedOne', { location: capitalize(first.location), description: first.entry.long })}`;
+};
@@ -0,0 +1,88 @@
+import type { SpeechPriority } from '@/lib/speech/queue';
+
+export interface HistoryEntry {
+  id: number;
+  text: string;
+  priority: SpeechPriority;
+  // Wall-clock time in ms, for the transcript
+  timestamp: number;
+}
+
+export interface AnnouncementHistoryState {
+  // Oldest first
+  entries: HistoryEntry[];
+  // Entry last reached with previous/next/repeat; null until the user navigates
+  cursorId: number | null;
+}
+
+export interface AnnouncementHistory {
+  add(text: string, priority: SpeechPriority): HistoryEntry;
+  // Each returns the entry to read out, or null when there is nothing there
+  repeatLast(): HistoryEntry | null;
+  previous(): HistoryEntry | null;
+  next(): HistoryEntry | null;
+  clear(): void;
+  getState(): AnnouncementHistoryState;
+  subscribe(listener: () => void): () => void;
+}
+
+export const DEFAULT_HISTORY_LIMIT = 50;
+
+// Bounded log of everything announced, with a cursor for stepping back through missed messages
+export const createAnnouncementHistory = (limit = DEFAULT_HISTORY_LIMIT): AnnouncementHistory => {
+  let state: AnnouncementHistoryState = { entries: [], cursorId: null };
+  let nextId = 0;
+  const listeners = new Set<() => void>();
+
+  const setState = (next: Partial<AnnouncementHistoryState>) => {
+    state = { ...state, ...next };
+    listeners.forEach(listener => listener());
+  };
+
+  const moveTo = (index: number) => {
+    const entry = state.entries[index];
+    if (!entry) return null;
+    setState({ cursorId: entry.id });
+    return entry;
+  };
+
+  // Without a cursor (or once it has been evicted) the newest entry counts as the one last heard,
+  // so the first "previous" steps to the entry before it
+  const cursorIndex = () => {
+    const index = state.entries.findIndex(entry => entry.id === state.cursorId);
+    return index === -1 ? state.entries.length - 1 : index;
+  };
+
+  return {
+    add(text, priority) {
+      const entry: HistoryEntry = { id: nextId++, text, priority, timestamp: Date.now() };
+      setState({ entries: [...state.entries, entry].slice(-limit) });
+      return entry;
+    },
+
+    repeatLast() {
+      return moveTo(state.entries.length - 1);
+    },
+
+    previous() {
+      return moveTo(Math.max(cursorIndex() - 1, 0));
+    },
+
+    next() {
+      return moveTo(Math.min(cursorIndex() + 1, state.entries.length - 1));
+    },
+
+    clear() {
+      setState({ entries: [], cursorId: null });
+    },
+
+    getState() {
+      return state;
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+};
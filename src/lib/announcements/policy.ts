@@ -0,0 +1,90 @@
+import type { Track } from '@/lib/detection/tracker';
+
+export interface AnnouncementPolicyConfig {
+  // Quiet period after a class is announced before it is announced again
+  defaultCooldownMs: number;
+  classCooldownsMs: Record<string, number>;
+  // Minimum gap between any two announcements
+  minIntervalMs: number;
+  // Only announce objects that newly appeared; otherwise present classes repeat every cooldown
+  announceOnChange: boolean;
+}
+
+export const DEFAULT_ANNOUNCEMENT_POLICY: AnnouncementPolicyConfig = {
+  defaultCooldownMs: 30_000,
+  classCooldownsMs: {
+    person: 15_000,
+    car: 10_000,
+    bicycle: 10_000,
+    motorcycle: 10_000,
+  },
+  minIntervalMs: 4_000,
+  announceOnChange: true,
+};
+
+export interface AnnouncementPolicy {
+  // Visible tracks that should be announced now, in the order given. Urgent tracks skip the
+  // cooldowns and minimum interval and are announced once each time they appear.
+  select(visible: Track[], now: number, isUrgent?: (track: Track) => boolean): Track[];
+  markAnnounced(tracks: Track[], now: number): void;
+  // A track left the scene; it will count as new if it comes back
+  forget(trackId: number): void;
+  // Drop all cooldowns so the next frame announces everything in view
+  resumeNow(): void;
+  setConfig(config: AnnouncementPolicyConfig): void;
+  reset(): void;
+}
+
+// Decides which tracked objects to speak about. Scanning itself never stops: objects of a class
+// that is cooling down are simply not announced, while other classes still are.
+export const createAnnouncementPolicy = (
+  initialConfig: AnnouncementPolicyConfig = DEFAULT_ANNOUNCEMENT_POLICY,
+): AnnouncementPolicy => {
+  let config = initialConfig;
+  const announcedTracks = new Set<number>();
+  const lastByClass = new Map<string, number>();
+  let lastAnnouncementAt = -Infinity;
+
+  const cooldownFor = (label: string) => config.classCooldownsMs[label] ?? config.defaultCooldownMs;
+
+  const clear = () => {
+    announcedTracks.clear();
+    lastByClass.clear();
+    lastAnnouncementAt = -Infinity;
+  };
+
+  return {
+    select(visible, now, isUrgent = () => false) {
+      const quiet = now - lastAnnouncementAt < config.minIntervalMs;
+
+      return visible.filter(track => {
+        if (isUrgent(track)) return !announcedTracks.has(track.id);
+        if (quiet) return false;
+        const classLast = lastByClass.get(track.label);
+        if (classLast !== undefined && now - classLast < cooldownFor(track.label)) return false;
+        return !(config.announceOnChange && announcedTracks.has(track.id));
+      });
+    },
+
+    markAnnounced(tracks, now) {
+      if (tracks.length === 0) return;
+      lastAnnouncementAt = now;
+      tracks.forEach(track => {
+        announcedTracks.add(track.id);
+        lastByClass.set(track.label, now);
+      });
+    },
+
+    forget(trackId) {
+      announcedTracks.delete(trackId);
+    },
+
+    resumeNow: clear,
+
+    setConfig(next) {
+      config = next;
+    },
+
+    reset: clear,
+  };
+};
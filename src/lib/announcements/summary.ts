@@ -0,0 +1,98 @@
+import type { Category, HazardLevel } from '@/lib/catalog/schema';
+import { capitalize, joinList, type Translate } from '@/lib/i18n/translator';
+import type { AnnouncementItem } from './format';
+
+export interface SummaryOptions {
+  // Class groups named individually; the rest are folded into per-category counts
+  maxGroups?: number;
+  // Per-category counts spoken before the remainder becomes "N more objects"
+  maxCategoryGroups?: number;
+}
+
+export interface ClassGroup {
+  items: AnnouncementItem[];
+  region: string;
+}
+
+const HAZARD_RANK: Record<HazardLevel, number> = { danger: 0, caution: 1, info: 2 };
+
+// Most hazardous first, then nearest; unknown distances sort after known ones
+const importance = (group: ClassGroup) => ({
+  hazard: Math.min(...group.items.map(item => HAZARD_RANK[item.entry.hazard])),
+  metres: Math.min(...group.items.map(item => item.metres ?? Infinity)),
+});
+
+const compareGroups = (a: ClassGroup, b: ClassGroup) => {
+  const left = importance(a);
+  const right = importance(b);
+  return left.hazard - right.hazard || left.metres - right.metres;
+};
+
+// One group per class per region, so three chairs ahead and one on the left stay separate
+export const groupByClass = (items: AnnouncementItem[]): ClassGroup[] => {
+  const groups = new Map<string, ClassGroup>();
+  items.forEach(item => {
+    const key = `${item.region}\u0000${item.entry.label}`;
+    const group = groups.get(key) ?? { items: [], region: item.region };
+    group.items.push(item);
+    groups.set(key, group);
+  });
+  return [...groups.values()].sort(compareGroups);
+};
+
+// "a chair" or "3 chairs"
+export const describeGroup = (group: ClassGroup, t: Translate) => {
+  const { entry } = group.items[0];
+  return group.items.length === 1
+    ? entry.short
+    : t('summary.count', { count: group.items.length, name: entry.plural });
+};
+
+// "3 chairs and a dining table straight ahead; a person on your left; plus 2 kitchen items."
+// Regions are spoken in the order of their most important group.
+export const summarizeScene = (items: AnnouncementItem[], t: Translate, options: SummaryOptions = {}): string => {
+  const { maxGroups = 4, maxCategoryGroups = 2 } = options;
+  const groups = groupByClass(items);
+  const named = groups.slice(0, maxGroups);
+  const overflow = groups.slice(maxGroups);
+
+  const regions = new Map<string, string[]>();
+  named.forEach(group => {
+    regions.set(group.region, [...(regions.get(group.region) ?? []), describeGroup(group, t)]);
+  });
+  const clauses = [...regions].map(([where, phrases]) => t('summary.clause', { items: joinList(phrases, t), where }));
+
+  if (overflow.length > 0) {
+    // Categories in order of their most important leftover group
+    const categories = new Map<Category, number>();
+    overflow.forEach(group => {
+      const { category } = group.items[0].entry;
+      categories.set(category, (categories.get(category) ?? 0) + group.items.length);
+    });
+    const counted = [...categories].slice(0, maxCategoryGroups);
+    const phrases = counted.map(([category, count]) => t(`summary.category.${category}`, { count }));
+    const remaining = [...categories].slice(maxCategoryGroups).reduce((sum, [, count]) => sum + count, 0);
+    if (remaining > 0) phrases.push(t('summary.more', { count: remaining }));
+    clauses.push(t('summary.overflow', { items: joinList(phrases, t) }));
+  }
+
+  return capitalize(t('summary.sentence', { clauses: clauses.join(t('summary.separator')) }));
+};
+
+// Everything in view, uncapped, for the "What's around me?" command: a count, then one sentence per
+// class and direction with the distance to the nearest of them.
+export const formatInventory = (items: AnnouncementItem[], t: Translate): string => {
+  if (items.length === 0) return t('inventory.empty');
+
+  const sentences = groupByClass(items).map(group => {
+    const [nearest] = [...group.items].sort((a, b) => (a.metres ?? Infinity) - (b.metres ?? Infinity));
+    if (group.items.length === 1) {
+      return capitalize(t('announce.short', { name: nearest.entry.short, location: nearest.location }));
+    }
+    const phrase = describeGroup(group, t);
+    return capitalize(nearest.distance
+      ? t('inventory.groupWithDistance', { items: phrase, where: group.region, distance: nearest.distance })
+      : t('inventory.group', { items: phrase, where: group.region }));
+  });
+  return [t('inventory.count', { count: items.length }), ...sentences].join(' ');
+};
@@ -0,0 +1,130 @@
+import type { Category } from '@/lib/catalog/schema';
+
+export type EarconName = 'danger' | Category;
+
+interface EarconTone {
+  frequency: number;
+  // Seconds from the start of the earcon
+  start: number;
+  duration: number;
+}
+
+interface Earcon {
+  type: OscillatorType;
+  tones: EarconTone[];
+}
+
+const blip = (frequency: number, start = 0, duration = 0.08): EarconTone => ({ frequency, start, duration });
+
+// Each category gets its own timbre and contour, kept under 200 ms so a few can play before the
+// sentence they precede. Danger is two falling pairs, unlike anything a speech voice produces.
+const EARCONS: Record<EarconName, Earcon> = {
+  danger: {
+    type: 'square',
+    tones: [blip(988, 0, 0.09), blip(740, 0.1, 0.09), blip(988, 0.22, 0.09), blip(740, 0.32, 0.09)],
+  },
+  person: { type: 'sine', tones: [blip(660), blip(880, 0.09)] },
+  vehicle: { type: 'sawtooth', tones: [blip(196, 0, 0.16)] },
+  street: { type: 'triangle', tones: [blip(523, 0, 0.12)] },
+  animal: { type: 'sine', tones: [blip(440, 0, 0.05), blip(554, 0.05, 0.05), blip(440, 0.1, 0.05)] },
+  accessory: { type: 'sine', tones: [blip(1047, 0, 0.06)] },
+  sports: { type: 'triangle', tones: [blip(784), blip(988, 0.09)] },
+  kitchen: { type: 'sine', tones: [blip(1319, 0, 0.12)] },
+  food: { type: 'sine', tones: [blip(880, 0, 0.05), blip(880, 0.08, 0.05)] },
+  furniture: { type: 'triangle', tones: [blip(330, 0, 0.14)] },
+  electronics: { type: 'square', tones: [blip(1175, 0, 0.04), blip(1568, 0.06, 0.04)] },
+  appliance: { type: 'square', tones: [blip(587, 0, 0.12)] },
+  household: { type: 'triangle', tones: [blip(698), blip(587, 0.09)] },
+  other: { type: 'sine', tones: [blip(622, 0, 0.1)] },
+};
+
+// Quiet enough to sit under speech rather than mask it
+const PEAK_GAIN = 0.25;
+// Distance of the virtual source from the listener, in Web Audio units
+const SOURCE_DISTANCE = 1;
+
+export interface EarconOptions {
+  // Horizontal position from -1 (far left) through 0 (ahead) to 1 (far right)
+  pan?: number;
+  // Seconds to wait before playing, for spacing out several earcons
+  delay?: number;
+}
+
+export interface EarconPlayer {
+  play(name: EarconName, options?: EarconOptions): void;
+  dispose(): void;
+}
+
+// Older Safari only has the prefixed constructor
+const AudioContextClass: typeof AudioContext | undefined = typeof window === 'undefined'
+  ? undefined
+  : window.AudioContext ?? (window as Window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+
+// Web Audio alongside speechSynthesis: each earcon goes through an HRTF panner placed on an arc in
+// front of the listener, so headphone users hear where the object is. Earcons are extras; where
+// Web Audio is missing or fails they are skipped and the speech they accompany is unaffected.
+export const createEarconPlayer = (): EarconPlayer => {
+  let context: AudioContext | null = null;
+
+  // Created on first use: browsers keep an AudioContext suspended until the page has had a user gesture
+  const getContext = () => {
+    if (!AudioContextClass) return null;
+    if (!context) context = new AudioContextClass();
+    if (context.state === 'suspended') void context.resume().catch(() => undefined);
+    return context;
+  };
+
+  const createPanner = (audio: AudioContext, pan: number) => {
+    // The full left-right range maps to 90 degrees either side, wider than the camera sees, so
+    // positions are easier to tell apart
+    const angle = (Math.max(-1, Math.min(1, pan)) * Math.PI) / 2;
+    const panner = audio.createPanner();
+    panner.panningModel = 'HRTF';
+    panner.distanceModel = 'inverse';
+    const [x, z] = [Math.sin(angle) * SOURCE_DISTANCE, -Math.cos(angle) * SOURCE_DISTANCE];
+    // positionX/Y/Z are missing on older Safari, which only has the deprecated setPosition
+    if (panner.positionX) {
+      panner.positionX.value = x;
+      panner.positionY.value = 0;
+      panner.positionZ.value = z;
+    } else {
+      panner.setPosition(x, 0, z);
+    }
+    panner.connect(audio.destination);
+    return panner;
+  };
+
+  return {
+    play(name, { pan = 0, delay = 0 } = {}) {
+      try {
+        const audio = getContext();
+        if (!audio) return;
+        const { type, tones } = EARCONS[name];
+        const output = createPanner(audio, pan);
+        tones.forEach(({ frequency, start, duration }, index) => {
+          const at = audio.currentTime + delay + start;
+          const oscillator = audio.createOscillator();
+          const gain = audio.createGain();
+          oscillator.type = type;
+          oscillator.frequency.value = frequency;
+          // Short ramps avoid clicks at the edges of each tone
+          gain.gain.setValueAtTime(0, at);
+          gain.gain.linearRampToValueAtTime(PEAK_GAIN, at + 0.01);
+          gain.gain.linearRampToValueAtTime(0, at + duration);
+          oscillator.connect(gain).connect(output);
+          oscillator.start(at);
+          oscillator.stop(at + duration);
+          // Tones are in start order; the panner is released once the last one has finished
+          if (index === tones.length - 1) oscillator.onended = () => output.disconnect();
+        });
+      } catch (error) {
+        console.warn('Earcon could not be played:', error);
+      }
+    },
+
+    dispose() {
+      void context?.close().catch(() => undefined);
+      context = null;
+    },
+  };
+};
@@ -0,0 +1,99 @@
+import {
+  objectCatalogSchema,
+  storedOverridesSchema,
+  type CatalogEntry,
+  type CatalogOverrides,
+  type ObjectCatalog,
+  type StoredOverrides,
+} from './schema';
+
+// One module per locale under src/data/catalog, loaded on demand
+const catalogModules = import.meta.glob<{ default: ObjectCatalog }>('../../data/catalog/*.ts');
+
+const localeFromPath = (path: string) => path.slice(path.lastIndexOf('/') + 1, -'.ts'.length);
+
+export const CATALOG_LOCALES = Object.keys(catalogModules).map(localeFromPath);
+
+export const DEFAULT_CATALOG_LOCALE = 'en';
+
+// Tries "hi-IN", then "hi", then English
+export const loadCatalog = async (locale: string): Promise<ObjectCatalog> => {
+  const candidates = [locale, locale.split('-')[0], DEFAULT_CATALOG_LOCALE];
+  const path = candidates
+    .map(candidate => `../../data/catalog/${candidate}.ts`)
+    .find(candidate => candidate in catalogModules);
+
+  const module = await catalogModules[path!]();
+  return objectCatalogSchema.parse(module.default);
+};
+
+// Only labels missing from every catalog land here, so the wording stays in English
+export const fallbackEntry = (label: string): CatalogEntry => ({
+  label,
+  name: label,
+  plural: `${label}s`,
+  synonyms: [],
+  category: 'other',
+  hazard: 'info',
+  short: `${/^[aeiou]/i.test(label) ? 'an' : 'a'} ${label}`,
+  long: `A ${label} is detected in your view. This object is part of your current environment and may require your attention.`,
+});
+
+export const applyOverrides = (catalog: ObjectCatalog, overrides: CatalogOverrides): ObjectCatalog => ({
+  ...catalog,
+  entries: catalog.entries.map(entry => ({ ...entry, ...overrides[entry.label] })),
+});
+
+export type CatalogLookup = (label: string) => CatalogEntry;
+
+// Resolves a detector label, or any of its synonyms, to a catalog entry
+export const createCatalogLookup = (catalog: ObjectCatalog | null): CatalogLookup => {
+  const byName = new Map<string, CatalogEntry>();
+  catalog?.entries.forEach(entry => {
+    entry.synonyms.forEach(synonym => byName.set(synonym.toLowerCase(), entry));
+  });
+  // Exact labels win over synonyms
+  catalog?.entries.forEach(entry => byName.set(entry.label.toLowerCase(), entry));
+
+  return label => byName.get(label.toLowerCase()) ?? fallbackEntry(label);
+};
+
+// Lowercased synonym -> detector label, for normalizing other models' label sets. As in lookups,
+// exact labels win: a synonym naming another class (say "cup" added to wine glass) is left out, or
+// every real detection of that class would be relabelled.
+export const createSynonymTable = (catalog: ObjectCatalog | null): Record<string, string> => {
+  const entries = catalog?.entries ?? [];
+  const labels = new Set(entries.map(entry => entry.label.toLowerCase()));
+  return Object.fromEntries(entries.flatMap(entry =>
+    entry.synonyms
+      .map(synonym => synonym.toLowerCase())
+      .filter(synonym => !labels.has(synonym))
+      .map(synonym => [synonym, entry.label]),
+  ));
+};
+
+const overridesKey = (locale: string) => `blindvision.catalog-overrides.${locale}`;
+
+export const loadOverrides = (locale: string): StoredOverrides | null => {
+  try {
+    const stored = localStorage.getItem(overridesKey(locale));
+    if (!stored) return null;
+    const parsed = storedOverridesSchema.safeParse(JSON.parse(stored));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveOverrides = (locale: string, stored: StoredOverrides) => {
+  try {
+    localStorage.setItem(overridesKey(locale), JSON.stringify(stored));
+  } catch {
+    // Storage full or blocked: the edits still apply for this session
+  }
+};
+
+// Edits written for an earlier version of the catalog may describe entries that have since
+// changed, so they are flagged for review rather than silently trusted
+export const areOverridesStale = (stored: StoredOverrides | null, catalog: ObjectCatalog) =>
+  !!stored && Object.keys(stored.overrides).length > 0 && stored.catalogVersion !== catalog.version;
@@ -0,0 +1,51 @@
+import { z } from 'zod';
+
+export const CATEGORIES = [
+  'person', 'vehicle', 'street', 'animal', 'accessory', 'sports',
+  'kitchen', 'food', 'furniture', 'electronics', 'appliance', 'household', 'other',
+] as const;
+
+export const HAZARD_LEVELS = ['info', 'caution', 'danger'] as const;
+
+export const catalogEntrySchema = z.object({
+  // Class name exactly as the detector emits it
+  label: z.string().min(1),
+  // Bare class name in the catalog's language, e.g. "cup" or "Tasse"; used for label-only announcements
+  name: z.string().min(1),
+  // Plural of `name` for counted groups in scene summaries, e.g. "3 chairs"
+  plural: z.string().min(1),
+  // Other names the same class goes by in other models' label sets
+  synonyms: z.array(z.string()),
+  category: z.enum(CATEGORIES),
+  // Danger is announced at once, past any cooldown, with an alert tone; caution and danger boxes are
+  // drawn in their own colours
+  hazard: z.enum(HAZARD_LEVELS),
+  // Noun phrase used in short announcements, e.g. "a cup" or "your blue mug"
+  short: z.string().min(1),
+  // Full description read at the detailed verbosity level
+  long: z.string().min(1),
+});
+
+export const objectCatalogSchema = z.object({
+  version: z.number().int().positive(),
+  locale: z.string().min(2),
+  entries: z.array(catalogEntrySchema),
+});
+
+// Caregiver edits, keyed by label; only the wording can be changed
+export const catalogOverridesSchema = z.record(
+  catalogEntrySchema.pick({ name: true, plural: true, short: true, long: true, synonyms: true }).partial(),
+);
+
+// Overrides as saved, with the version of the catalog they were written against
+export const storedOverridesSchema = z.object({
+  catalogVersion: z.number().int().positive(),
+  overrides: catalogOverridesSchema,
+});
+
+export type Category = (typeof CATEGORIES)[number];
+export type HazardLevel = (typeof HAZARD_LEVELS)[number];
+export type CatalogEntry = z.infer<typeof catalogEntrySchema>;
+export type ObjectCatalog = z.infer<typeof objectCatalogSchema>;
+export type CatalogOverrides = z.infer<typeof catalogOverridesSchema>;
+export type StoredOverrides = z.infer<typeof storedOverridesSchema>;
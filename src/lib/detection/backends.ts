@@ -0,0 +1,22 @@
+import type { DetectorBackendConfig } from './config';
+import { createFallbackBackend } from './fallback-backend';
+import { createMockBackend } from './mock-backend';
+import { createTransformersBackend } from './transformers-backend';
+import type { DetectorBackend } from './types';
+
+export const createDetectorBackend = (config: DetectorBackendConfig): DetectorBackend => {
+  switch (config.kind) {
+    case 'transformers':
+      // An explicit device pins the backend; otherwise probe and fall back WebGPU -> WASM
+      if (config.device) {
+        return createTransformersBackend(config);
+      }
+      return createFallbackBackend({
+        name: config.name,
+        model: config.model,
+        createForMode: mode => createTransformersBackend({ ...config, device: mode.device, dtype: mode.dtype }),
+      });
+    case 'mock':
+      return createMockBackend(config);
+  }
+};
@@ -0,0 +1,22 @@
+export interface ClassFilter {
+  // When non-empty, only these labels are detected at all
+  include: string[];
+  // Labels that are always dropped, even if included
+  exclude: string[];
+}
+
+export interface Watchlist {
+  labels: string[];
+  // While active only watched labels are announced; everything else is still tracked and drawn
+  active: boolean;
+}
+
+export const passesClassFilter = (label: string, { include, exclude }: ClassFilter) =>
+  (include.length === 0 || include.includes(label)) && !exclude.includes(label);
+
+export const filterByClass = <T extends { label: string }>(items: T[], filter: ClassFilter) =>
+  items.filter(item => passesClassFilter(item.label, filter));
+
+// An active but empty watchlist announces nothing, which is what the user asked for
+export const selectWatched = <T extends { label: string }>(items: T[], { labels, active }: Watchlist) =>
+  active ? items.filter(item => labels.includes(item.label)) : items;
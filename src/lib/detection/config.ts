@@ -0,0 +1,32 @@
+import type { MockBackendOptions } from './mock-backend';
+import type { TransformersBackendOptions } from './transformers-backend';
+
+// Kept free of runtime imports so the main thread can pick a backend without bundling transformers.js
+
+export type DetectorBackendConfig =
+  | ({ kind: 'transformers' } & TransformersBackendOptions)
+  | ({ kind: 'mock' } & MockBackendOptions);
+
+export const BACKEND_PRESETS = {
+  detr: { kind: 'transformers', name: 'DETR ResNet-50', model: 'Xenova/detr-resnet-50' },
+  yolos: { kind: 'transformers', name: 'YOLOS Tiny', model: 'Xenova/yolos-tiny' },
+  mock: { kind: 'mock' },
+} satisfies Record<string, DetectorBackendConfig>;
+
+export type BackendPreset = keyof typeof BACKEND_PRESETS;
+
+// Deployments pick a model at build time instead of forking the component:
+//   VITE_DETECTOR_BACKEND=yolos            one of BACKEND_PRESETS
+//   VITE_DETECTOR_MODEL=my-org/custom-onnx any transformers.js object-detection model
+export const resolveBackendConfig = (env: Record<string, string | undefined> = import.meta.env): DetectorBackendConfig => {
+  const customModel = env.VITE_DETECTOR_MODEL;
+  if (customModel) {
+    return { kind: 'transformers', name: customModel, model: customModel };
+  }
+
+  const preset = env.VITE_DETECTOR_BACKEND as BackendPreset | undefined;
+  if (preset && preset in BACKEND_PRESETS) {
+    return BACKEND_PRESETS[preset];
+  }
+  return BACKEND_PRESETS.detr;
+};
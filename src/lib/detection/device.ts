@@ -0,0 +1,76 @@
+// Minimal slice of the WebGPU API; the TypeScript DOM lib does not ship these types yet
+interface GPUAdapterLike {
+  features: ReadonlySet<string>;
+  limits: { maxBufferSize: number; maxStorageBufferBindingSize: number };
+}
+
+interface NavigatorWithGPU extends Navigator {
+  gpu?: { requestAdapter(options?: { powerPreference?: 'high-performance' | 'low-power' }): Promise<GPUAdapterLike | null> };
+  deviceMemory?: number;
+}
+
+export interface DeviceProfile {
+  webgpu: boolean;
+  shaderF16: boolean;
+  // Largest single GPU buffer in bytes, when a WebGPU adapter is available
+  maxBufferSize?: number;
+  // Approximate RAM in GB (Chromium only, rounded down to a power of two)
+  deviceMemory?: number;
+}
+
+export type ExecutionModeId = 'webgpu-fp16' | 'webgpu-fp32' | 'wasm-q8';
+
+export interface ExecutionMode {
+  // Looked up in the locale messages (`mode.<id>`) when telling the user how the model runs
+  id: ExecutionModeId;
+  device: 'webgpu' | 'wasm';
+  dtype: 'fp16' | 'fp32' | 'q8';
+}
+
+export const EXECUTION_MODES = {
+  webgpuFp16: { id: 'webgpu-fp16', device: 'webgpu', dtype: 'fp16' },
+  webgpuFp32: { id: 'webgpu-fp32', device: 'webgpu', dtype: 'fp32' },
+  wasmQ8: { id: 'wasm-q8', device: 'wasm', dtype: 'q8' },
+} satisfies Record<string, ExecutionMode>;
+
+// fp32 weights double GPU memory use; below this we skip straight to the processor
+const MIN_MEMORY_GB_FOR_FP32 = 4;
+const MIN_GPU_BUFFER_BYTES = 128 * 1024 * 1024;
+
+export const probeDevice = async (): Promise<DeviceProfile> => {
+  const nav = navigator as NavigatorWithGPU;
+  const profile: DeviceProfile = {
+    webgpu: false,
+    shaderF16: false,
+    deviceMemory: nav.deviceMemory,
+  };
+
+  if (!nav.gpu) return profile;
+
+  try {
+    const adapter = await nav.gpu.requestAdapter({ powerPreference: 'high-performance' });
+    if (!adapter) return profile;
+
+    profile.webgpu = true;
+    profile.shaderF16 = adapter.features.has('shader-f16');
+    profile.maxBufferSize = adapter.limits.maxBufferSize;
+  } catch (error) {
+    console.warn('WebGPU adapter request failed:', error);
+  }
+  return profile;
+};
+
+// Best first; the processor fallback is always last so there is something to run on
+export const rankExecutionModes = (profile: DeviceProfile): ExecutionMode[] => {
+  const modes: ExecutionMode[] = [];
+  const gpuUsable = profile.webgpu && (profile.maxBufferSize ?? Infinity) >= MIN_GPU_BUFFER_BYTES;
+
+  if (gpuUsable && profile.shaderF16) {
+    modes.push(EXECUTION_MODES.webgpuFp16);
+  }
+  if (gpuUsable && (profile.deviceMemory ?? Infinity) >= MIN_MEMORY_GB_FOR_FP32) {
+    modes.push(EXECUTION_MODES.webgpuFp32);
+  }
+  modes.push(EXECUTION_MODES.wasmQ8);
+  return modes;
+};
@@ -0,0 +1,147 @@
+import type { Translate } from '@/lib/i18n/translator';
+import { DEFAULT_HORIZONTAL_FOV, type FrameSize } from './spatial';
+import type { BoundingBox } from './types';
+
+export interface DistanceEstimate {
+  metres: number;
+  // Confidence band from how much the class's real-world height varies
+  min: number;
+  max: number;
+  // Box is cut off by the frame edge, so the object is probably closer than estimated
+  truncated: boolean;
+}
+
+interface KnownHeight {
+  // Typical real-world height of the visible box in metres
+  height: number;
+  // Relative spread, e.g. 0.2 means ±20%; large for classes whose box depends on orientation
+  spread: number;
+}
+
+// Typical heights for the COCO classes emitted by DETR/YOLOS
+export const KNOWN_HEIGHTS: Record<string, KnownHeight> = {
+  'person': { height: 1.7, spread: 0.15 },
+  'bicycle': { height: 1.0, spread: 0.2 },
+  'car': { height: 1.5, spread: 0.2 },
+  'motorcycle': { height: 1.1, spread: 0.2 },
+  'airplane': { height: 10, spread: 0.6 },
+  'bus': { height: 3.2, spread: 0.15 },
+  'train': { height: 4.0, spread: 0.2 },
+  'truck': { height: 3.0, spread: 0.3 },
+  'boat': { height: 2.0, spread: 0.6 },
+  'traffic light': { height: 1.0, spread: 0.4 },
+  'fire hydrant': { height: 0.75, spread: 0.2 },
+  'stop sign': { height: 0.75, spread: 0.2 },
+  'parking meter': { height: 1.3, spread: 0.2 },
+  'bench': { height: 0.85, spread: 0.2 },
+  'bird': { height: 0.25, spread: 0.6 },
+  'cat': { height: 0.3, spread: 0.3 },
+  'dog': { height: 0.55, spread: 0.4 },
+  'horse': { height: 1.6, spread: 0.15 },
+  'sheep': { height: 0.9, spread: 0.2 },
+  'cow': { height: 1.4, spread: 0.15 },
+  'elephant': { height: 3.0, spread: 0.2 },
+  'bear': { height: 1.2, spread: 0.4 },
+  'zebra': { height: 1.4, spread: 0.15 },
+  'giraffe': { height: 4.8, spread: 0.2 },
+  'backpack': { height: 0.5, spread: 0.3 },
+  'umbrella': { height: 1.0, spread: 0.4 },
+  'handbag': { height: 0.3, spread: 0.4 },
+  'tie': { height: 0.45, spread: 0.3 },
+  'suitcase': { height: 0.65, spread: 0.3 },
+  'frisbee': { height: 0.25, spread: 0.8 },
+  'skis': { height: 1.7, spread: 0.5 },
+  'snowboard': { height: 1.5, spread: 0.5 },
+  'sports ball': { height: 0.22, spread: 0.3 },
+  'kite': { height: 1.0, spread: 0.6 },
+  'baseball bat': { height: 0.85, spread: 0.4 },
+  'baseball glove': { height: 0.3, spread: 0.3 },
+  'skateboard': { height: 0.8, spread: 0.7 },
+  'surfboard': { height: 2.0, spread: 0.5 },
+  'tennis racket': { height: 0.68, spread: 0.3 },
+  'bottle': { height: 0.25, spread: 0.3 },
+  'wine glass': { height: 0.2, spread: 0.2 },
+  'cup': { height: 0.1, spread: 0.3 },
+  'fork': { height: 0.19, spread: 0.4 },
+  'knife': { height: 0.22, spread: 0.4 },
+  'spoon': { height: 0.17, spread: 0.4 },
+  'bowl': { height: 0.08, spread: 0.4 },
+  'banana': { height: 0.18, spread: 0.5 },
+  'apple': { height: 0.08, spread: 0.2 },
+  'sandwich': { height: 0.1, spread: 0.5 },
+  'orange': { height: 0.08, spread: 0.2 },
+  'broccoli': { height: 0.15, spread: 0.4 },
+  'carrot': { height: 0.18, spread: 0.5 },
+  'hot dog': { height: 0.15, spread: 0.6 },
+  'pizza': { height: 0.3, spread: 0.7 },
+  'donut': { height: 0.09, spread: 0.3 },
+  'cake': { height: 0.15, spread: 0.5 },
+  'chair': { height: 0.9, spread: 0.15 },
+  'couch': { height: 0.85, spread: 0.2 },
+  'potted plant': { height: 0.5, spread: 0.6 },
+  'bed': { height: 0.6, spread: 0.5 },
+  'dining table': { height: 0.75, spread: 0.2 },
+  'toilet': { height: 0.75, spread: 0.15 },
+  'tv': { height: 0.6, spread: 0.4 },
+  'laptop': { height: 0.24, spread: 0.3 },
+  'mouse': { height: 0.04, spread: 0.5 },
+  'remote': { height: 0.18, spread: 0.4 },
+  'keyboard': { height: 0.15, spread: 0.7 },
+  'cell phone': { height: 0.15, spread: 0.3 },
+  'microwave': { height: 0.3, spread: 0.2 },
+  'oven': { height: 0.9, spread: 0.2 },
+  'toaster': { height: 0.2, spread: 0.2 },
+  'sink': { height: 0.25, spread: 0.5 },
+  'refrigerator': { height: 1.75, spread: 0.15 },
+  'book': { height: 0.23, spread: 0.3 },
+  'clock': { height: 0.3, spread: 0.5 },
+  'vase': { height: 0.3, spread: 0.5 },
+  'scissors': { height: 0.2, spread: 0.3 },
+  'teddy bear': { height: 0.35, spread: 0.5 },
+  'hair drier': { height: 0.25, spread: 0.3 },
+  'toothbrush': { height: 0.19, spread: 0.2 },
+};
+
+// Boxes within this many pixels of the top or bottom edge are treated as cut off
+const EDGE_MARGIN_PX = 4;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Pinhole model: distance = realHeight * focalLength / boxHeight, with the focal length in pixels
+// derived from the horizontal field of view and the frame's aspect ratio.
+export const estimateDistance = (
+  label: string,
+  box: BoundingBox,
+  frame: FrameSize,
+  horizontalFov = DEFAULT_HORIZONTAL_FOV,
+): DistanceEstimate | null => {
+  const known = KNOWN_HEIGHTS[label];
+  const boxHeight = box.ymax - box.ymin;
+  if (!known || boxHeight <= 0) return null;
+
+  const halfHorizontal = toRadians(horizontalFov) / 2;
+  const halfVertical = Math.atan(Math.tan(halfHorizontal) * (frame.height / frame.width));
+  const focalPx = frame.height / 2 / Math.tan(halfVertical);
+
+  const metres = (known.height * focalPx) / boxHeight;
+  return {
+    metres,
+    min: metres * (1 - known.spread),
+    max: metres * (1 + known.spread),
+    truncated: box.ymin <= EDGE_MARGIN_PX || box.ymax >= frame.height - EDGE_MARGIN_PX,
+  };
+};
+
+// Half-metre steps up close, whole metres further out
+const roundMetres = (metres: number) => (metres < 3 ? Math.round(metres * 2) / 2 : Math.round(metres));
+
+// "about 2 metres away", "less than a metre away", "within 3 metres" for cut-off boxes
+export const describeDistance = (estimate: DistanceEstimate, t: Translate): string => {
+  if (estimate.metres < 0.75) return t('distance.underOneMetre');
+  const count = roundMetres(estimate.metres);
+  return t(estimate.truncated ? 'distance.within' : 'distance.about', { count });
+};
+
+// Nearest first; objects without an estimate go last in their original order
+export const compareByDistance = (a: DistanceEstimate | null, b: DistanceEstimate | null) =>
+  (a?.metres ?? Infinity) - (b?.metres ?? Infinity);
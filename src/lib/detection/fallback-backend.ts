@@ -0,0 +1,70 @@
+import { probeDevice, rankExecutionModes, type ExecutionMode } from './device';
+import type { BackendCapabilities, DetectorBackend } from './types';
+
+export interface FallbackBackendOptions {
+  name: string;
+  model: string;
+  createForMode: (mode: ExecutionMode) => DetectorBackend;
+  // Skip probing and try exactly these modes, in order
+  modes?: ExecutionMode[];
+}
+
+// Side of the blank frame each mode must get through before it is accepted
+const WARM_UP_SIZE = 64;
+
+// Some GPUs load the fp16 model fine and then fail on every inference, so a mode only counts as
+// working once it has run a detection
+const warmUp = async (backend: DetectorBackend) => {
+  await backend.load();
+  await backend.detect(new OffscreenCanvas(WARM_UP_SIZE, WARM_UP_SIZE));
+};
+
+// Tries each execution mode the device supports, best first, and keeps the first one that loads
+// and runs a warm-up detection
+export const createFallbackBackend = (options: FallbackBackendOptions): DetectorBackend => {
+  const { name, model, createForMode } = options;
+  let active: DetectorBackend | null = null;
+  let capabilities: BackendCapabilities = { name, model, device: 'auto' };
+
+  return {
+    get capabilities() {
+      return capabilities;
+    },
+
+    async load() {
+      if (active) return;
+
+      const modes = options.modes ?? rankExecutionModes(await probeDevice());
+      let lastError: unknown;
+
+      for (const mode of modes) {
+        const candidate = createForMode(mode);
+        try {
+          await warmUp(candidate);
+          active = candidate;
+          capabilities = { ...candidate.capabilities, name, mode: mode.id };
+          return;
+        } catch (error) {
+          console.warn(`${name} failed on ${mode.device} (${mode.dtype}), trying next mode:`, error);
+          lastError = error;
+          await candidate.dispose().catch(() => undefined);
+        }
+      }
+
+      throw lastError ?? new Error(`${name} has no execution mode available`);
+    },
+
+    async detect(frame) {
+      if (!active) {
+        throw new Error(`${name} backend used before load()`);
+      }
+      return active.detect(frame);
+    },
+
+    async dispose() {
+      await active?.dispose();
+      active = null;
+      capabilities = { name, model, device: 'auto' };
+    },
+  };
+};
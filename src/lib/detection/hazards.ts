@@ -0,0 +1,105 @@
+import { capitalize, type Translate } from '@/lib/i18n/translator';
+import { getSpatialPosition, type FrameSize, type Side } from './spatial';
+import type { Track } from './tracker';
+
+export interface HazardWarning {
+  trackId: number;
+  label: string;
+  // Seconds until the object fills the view at its current growth rate
+  timeToContact: number;
+  side: Side;
+  urgency: 'fast' | 'approaching';
+}
+
+export interface HazardMonitorOptions {
+  // Warn when time-to-contact drops below this many seconds
+  ttcThreshold?: number;
+  // Below this the warning says "fast"
+  fastThreshold?: number;
+  // Consecutive frames a track must be matched before its growth rate is trusted
+  minHits?: number;
+  // Ignore growth slower than this fraction of the box height per second (detector jitter)
+  minGrowthRate?: number;
+  // Do not repeat a warning for the same track sooner than this
+  repeatAfterMs?: number;
+  classes?: ReadonlySet<string>;
+}
+
+export interface HazardMonitor {
+  update(tracks: Track[], timestamp: number, frame: FrameSize): HazardWarning[];
+  reset(): void;
+}
+
+// Things that move toward the user on their own
+export const MOVING_CLASSES: ReadonlySet<string> = new Set([
+  'person', 'bicycle', 'car', 'motorcycle', 'bus', 'train', 'truck',
+  'dog', 'horse', 'cow', 'bear', 'elephant', 'sports ball',
+]);
+
+// Short phrase meant to interrupt whatever is being spoken, e.g. "Car approaching fast, left".
+// `name` is the localized class name from the catalog.
+export const describeHazard = (warning: HazardWarning, name: string, t: Translate): string => {
+  return capitalize(t(warning.urgency === 'fast' ? 'hazard.approachingFast' : 'hazard.approaching', {
+    name,
+    side: t(`side.${warning.side}`),
+  }));
+};
+
+// Time-to-contact from looming: an object of height h growing at dh/dt reaches the camera in about
+// h / (dh/dt) seconds, independent of its real size or distance.
+export const createHazardMonitor = (options: HazardMonitorOptions = {}): HazardMonitor => {
+  const {
+    ttcThreshold = 3,
+    fastThreshold = 1.5,
+    minHits = 3,
+    minGrowthRate = 0.05,
+    repeatAfterMs = 5000,
+    classes = MOVING_CLASSES,
+  } = options;
+  const lastWarned = new Map<number, number>();
+
+  return {
+    update(tracks, timestamp, frame) {
+      const warnings: HazardWarning[] = [];
+      const present = new Set<number>();
+
+      tracks.forEach(track => {
+        present.add(track.id);
+        if (!classes.has(track.label) || track.hits < minHits) return;
+
+        const height = track.box.ymax - track.box.ymin;
+        const growth = track.velocity.height;
+        if (height <= 0 || growth / height < minGrowthRate) return;
+
+        const timeToContact = height / growth;
+        if (timeToContact > ttcThreshold) return;
+
+        const warnedAt = lastWarned.get(track.id);
+        if (warnedAt !== undefined && timestamp - warnedAt < repeatAfterMs) return;
+        lastWarned.set(track.id, timestamp);
+
+        const urgency = timeToContact < fastThreshold ? 'fast' : 'approaching';
+        const side = getSpatialPosition(track.box, frame).side;
+        warnings.push({
+          trackId: track.id,
+          label: track.label,
+          timeToContact,
+          side,
+          urgency,
+        });
+      });
+
+      // Forget tracks that left so the map doesn't grow over a long walk
+      lastWarned.forEach((_, id) => {
+        if (!present.has(id)) lastWarned.delete(id);
+      });
+
+      // Most imminent first
+      return warnings.sort((a, b) => a.timeToContact - b.timeToContact);
+    },
+
+    reset() {
+      lastWarned.clear();
+    },
+  };
+};
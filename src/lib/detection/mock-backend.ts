@@ -0,0 +1,46 @@
+import type { Detection, DetectorBackend } from './types';
+
+export interface MockBackendOptions {
+  // Fixed detections, or a function called once per frame
+  detections?: Detection[] | ((frameIndex: number) => Detection[]);
+  // Simulated inference time in milliseconds
+  latency?: number;
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const defaultScene = (): Detection[] => [
+  { label: 'person', score: 0.92, box: { xmin: 80, ymin: 60, xmax: 320, ymax: 700 } },
+  { label: 'chair', score: 0.81, box: { xmin: 820, ymin: 380, xmax: 1100, ymax: 710 } },
+];
+
+// Deterministic backend for demos and for developing without a model download or GPU
+export const createMockBackend = (options: MockBackendOptions = {}): DetectorBackend => {
+  const { detections = defaultScene, latency = 50 } = options;
+  let loaded = false;
+  let frameIndex = 0;
+
+  return {
+    capabilities: { name: 'Mock detector', model: 'mock', device: 'none' },
+
+    async load() {
+      await wait(latency);
+      loaded = true;
+    },
+
+    async detect() {
+      if (!loaded) {
+        throw new Error('Mock detector used before load()');
+      }
+      await wait(latency);
+      const scene = typeof detections === 'function' ? detections(frameIndex) : detections;
+      frameIndex += 1;
+      return scene.map(detection => ({ ...detection, box: { ...detection.box } }));
+    },
+
+    async dispose() {
+      loaded = false;
+      frameIndex = 0;
+    },
+  };
+};
@@ -0,0 +1,78 @@
+import { iou } from './tracker';
+import type { BoundingBox, Detection } from './types';
+
+export interface PostProcessConfig {
+  // Boxes of one class overlapping more than this are one object; only the strongest is kept
+  nmsIou: number;
+  // Boxes overlapping more than this are the same detection reported twice and are averaged, so the
+  // kept box is steadier than either
+  mergeIou: number;
+  // Labels the model confuses for one another (tv/laptop). Each group counts as one class for
+  // suppression and tracking, and an object keeps the label it has been given most often.
+  confusionGroups: string[][];
+  // Model label -> canonical label, lowercased, e.g. "tvmonitor" -> "tv"
+  synonyms: Record<string, string>;
+}
+
+export const DEFAULT_POST_PROCESS: PostProcessConfig = {
+  nmsIou: 0.5,
+  mergeIou: 0.85,
+  confusionGroups: [
+    ['tv', 'laptop'],
+    ['cup', 'wine glass'],
+    ['couch', 'bed'],
+    ['car', 'truck'],
+  ],
+  synonyms: {},
+};
+
+// Maps each label to a key shared by its confusion group; labels outside any group are their own key
+export const createClassKey = (groups: string[][]) => {
+  const keys = new Map<string, string>();
+  groups.forEach(group => group.forEach(label => keys.set(label, group.join('|'))));
+  return (label: string) => keys.get(label) ?? label;
+};
+
+// Rewrites other models' names to catalog labels. Runs before the confidence and class filters,
+// which are keyed by catalog label.
+export const canonicalizeLabels = (detections: Detection[], synonyms: Record<string, string>): Detection[] =>
+  detections.map(detection => ({ ...detection, label: synonyms[detection.label.toLowerCase()] ?? detection.label }));
+
+// Score-weighted average of the cluster's boxes; the label and score come from its strongest member
+const mergeCluster = (cluster: Detection[]): Detection => {
+  const total = cluster.reduce((sum, detection) => sum + detection.score, 0);
+  const weighted = (side: keyof BoundingBox) =>
+    cluster.reduce((sum, detection) => sum + detection.box[side] * detection.score, 0) / total;
+  return {
+    ...cluster[0],
+    box: { xmin: weighted('xmin'), ymin: weighted('ymin'), xmax: weighted('xmax'), ymax: weighted('ymax') },
+  };
+};
+
+// Near-identical boxes merged, then class-aware non-max suppression. Classes in a confusion group
+// suppress each other, so a tv and a laptop on the same screen become one. Expects canonical labels
+// and already-filtered detections: a box that would be dropped must not suppress one that is kept.
+export const postProcess = (detections: Detection[], config: PostProcessConfig): Detection[] => {
+  const classKey = createClassKey(config.confusionGroups);
+  const sorted = [...detections].sort((a, b) => b.score - a.score);
+
+  const sameClass = (a: Detection, b: Detection) => classKey(a.label) === classKey(b.label);
+
+  const merged: Detection[] = [];
+  const used = new Set<Detection>();
+  sorted.forEach(detection => {
+    if (used.has(detection)) return;
+    const cluster = sorted.filter(other =>
+      !used.has(other) && sameClass(detection, other) && iou(detection.box, other.box) >= config.mergeIou,
+    );
+    cluster.forEach(other => used.add(other));
+    merged.push(mergeCluster(cluster));
+  });
+
+  const kept: Detection[] = [];
+  merged.forEach(detection => {
+    if (kept.some(other => sameClass(detection, other) && iou(detection.box, other.box) > config.nmsIou)) return;
+    kept.push(detection);
+  });
+  return kept;
+};
@@ -0,0 +1,109 @@
+export interface SchedulerStats {
+  // Exponential moving average of inference time in milliseconds
+  latencyMs: number;
+  // Frames actually processed per second, after backpressure
+  fps: number;
+}
+
+export interface FrameSchedulerOptions {
+  video: HTMLVideoElement;
+  // Runs one inference; the scheduler waits for it before starting another
+  onFrame: () => Promise<void>;
+  targetFps: number;
+  onStats?: (stats: SchedulerStats) => void;
+}
+
+export interface FrameScheduler {
+  start(): void;
+  stop(): void;
+  setTargetFps(fps: number): void;
+}
+
+export const MIN_TARGET_FPS = 0.5;
+export const MAX_TARGET_FPS = 15;
+
+// Weight of the newest latency sample in the moving average
+const LATENCY_SMOOTHING = 0.2;
+
+const clampFps = (fps: number) => Math.min(MAX_TARGET_FPS, Math.max(MIN_TARGET_FPS, fps));
+
+// Pulls frames from the video as they are presented and starts an inference only when the previous
+// one has finished and the target interval has elapsed. On slow devices the rate drops to whatever
+// inference latency allows; on fast ones it rises to the target.
+export const createFrameScheduler = (options: FrameSchedulerOptions): FrameScheduler => {
+  const { video, onFrame, onStats } = options;
+  let targetFps = clampFps(options.targetFps);
+  let running = false;
+  let busy = false;
+  let handle: number | null = null;
+  let lastStart = 0;
+  let latencyMs = 0;
+
+  // requestVideoFrameCallback is missing in older Firefox; animation frames are a close substitute
+  const supportsVideoFrames = 'requestVideoFrameCallback' in HTMLVideoElement.prototype;
+
+  const requestFrame = () => {
+    handle = supportsVideoFrames
+      ? video.requestVideoFrameCallback(tick)
+      : requestAnimationFrame(tick);
+  };
+
+  const cancelFrame = () => {
+    if (handle === null) return;
+    if (supportsVideoFrames) {
+      video.cancelVideoFrameCallback(handle);
+    } else {
+      cancelAnimationFrame(handle);
+    }
+    handle = null;
+  };
+
+  const tick = (now: number) => {
+    handle = null;
+    if (!running || busy) return;
+
+    if (now - lastStart < 1000 / targetFps) {
+      requestFrame();
+      return;
+    }
+
+    busy = true;
+    const started = performance.now();
+    const previousStart = lastStart;
+    lastStart = now;
+
+    // The next frame is only requested once this inference settles, so runs never overlap
+    onFrame()
+      .catch(error => console.error('Frame processing failed:', error))
+      .finally(() => {
+        const elapsed = performance.now() - started;
+        latencyMs = latencyMs === 0 ? elapsed : latencyMs + LATENCY_SMOOTHING * (elapsed - latencyMs);
+        busy = false;
+
+        onStats?.({
+          latencyMs,
+          fps: previousStart ? 1000 / (now - previousStart) : Math.min(targetFps, 1000 / latencyMs),
+        });
+
+        if (running) requestFrame();
+      });
+  };
+
+  return {
+    start() {
+      if (running) return;
+      running = true;
+      lastStart = 0;
+      requestFrame();
+    },
+
+    stop() {
+      running = false;
+      cancelFrame();
+    },
+
+    setTargetFps(fps) {
+      targetFps = clampFps(fps);
+    },
+  };
+};
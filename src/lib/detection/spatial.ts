@@ -0,0 +1,59 @@
+import type { Translate } from '@/lib/i18n/translator';
+import type { BoundingBox } from './types';
+
+export const DIRECTION_STYLES = ['sides', 'clock'] as const;
+
+export type DirectionStyle = (typeof DIRECTION_STYLES)[number];
+
+export type Side = 'left' | 'ahead' | 'right';
+export type Elevation = 'low' | 'level' | 'high';
+
+export interface FrameSize {
+  width: number;
+  height: number;
+}
+
+export interface SpatialPosition {
+  side: Side;
+  // 9..3 through 12; only hours the camera can actually see are produced
+  clockHour: number;
+  elevation: Elevation;
+  // Horizontal angle from straight ahead in degrees, negative to the left
+  bearing: number;
+}
+
+// Typical phone rear camera in landscape
+export const DEFAULT_HORIZONTAL_FOV = 70;
+// From telephoto to ultra-wide
+export const HORIZONTAL_FOV_RANGE = { min: 40, max: 120 } as const;
+
+export const getSpatialPosition = (
+  box: BoundingBox,
+  frame: FrameSize,
+  horizontalFov = DEFAULT_HORIZONTAL_FOV,
+): SpatialPosition => {
+  const x = (box.xmin + box.xmax) / 2 / frame.width;
+  const y = (box.ymin + box.ymax) / 2 / frame.height;
+
+  const bearing = (x - 0.5) * horizontalFov;
+  // Each clock hour spans 30 degrees; 0 means twelve o'clock
+  const hourOffset = Math.round(bearing / 30);
+
+  return {
+    side: x < 1 / 3 ? 'left' : x > 2 / 3 ? 'right' : 'ahead',
+    clockHour: hourOffset === 0 ? 12 : (12 + hourOffset) % 12,
+    elevation: y < 1 / 3 ? 'high' : y > 2 / 3 ? 'low' : 'level',
+    bearing,
+  };
+};
+
+// "on your left, low down" / "at your 2 o'clock" / "straight ahead", in the current language
+export const describePosition = (position: SpatialPosition, style: DirectionStyle, t: Translate): string => {
+  const direction = style === 'clock'
+    ? t('position.clock', { hour: position.clockHour })
+    : t(`position.${position.side}`);
+
+  if (position.elevation === 'low') return t('position.low', { direction });
+  if (position.elevation === 'high') return t('position.high', { direction });
+  return direction;
+};
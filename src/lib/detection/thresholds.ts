@@ -0,0 +1,14 @@
+import type { Detection } from './types';
+
+// The lowest score the settings offer. Backends report everything from here up so the user's
+// threshold, not the model default, decides what is kept.
+export const CONFIDENCE_RANGE = { min: 0.2, max: 0.95 } as const;
+
+// Per-class minimum scores, keyed by detector label, that replace the global threshold
+export type ClassThresholds = Record<string, number>;
+
+export const thresholdFor = (label: string, confidence: number, overrides: ClassThresholds) =>
+  overrides[label] ?? confidence;
+
+export const filterByConfidence = (detections: Detection[], confidence: number, overrides: ClassThresholds) =>
+  detections.filter(detection => detection.score >= thresholdFor(detection.label, confidence, overrides));
@@ -0,0 +1,309 @@
+import type { BoundingBox, Detection } from './types';
+
+export interface Velocity {
+  // Pixels per second for the box centre and size
+  cx: number;
+  cy: number;
+  width: number;
+  height: number;
+}
+
+export interface Track {
+  id: number;
+  label: string;
+  score: number;
+  box: BoundingBox;
+  velocity: Velocity;
+  // Consecutive frames with / without a matching detection
+  hits: number;
+  misses: number;
+  firstSeen: number;
+  lastSeen: number;
+}
+
+export type TrackEventType = 'enter' | 'exit' | 'move';
+
+export interface TrackEvent {
+  type: TrackEventType;
+  track: Track;
+}
+
+export interface TrackerUpdate {
+  // Objects currently present: confirmed, and not yet missing for long enough to count as gone
+  visible: Track[];
+  events: TrackEvent[];
+}
+
+export interface PresenceRule {
+  // A new object counts as present once matched in `minHits` of the last `window` frames
+  minHits: number;
+  window: number;
+  // Frames a present object may go unmatched before it exits
+  maxMisses: number;
+}
+
+export interface TrackerOptions {
+  // Minimum overlap for a detection to continue an existing track
+  iouThreshold?: number;
+  // Labels with the same key may continue each other's tracks, e.g. a confusion group; the track
+  // keeps its label until another has clearly more accumulated score
+  classKey?: (label: string) => string;
+  presence?: PresenceRule;
+  // Classes that need more (or less) evidence than `presence`, keyed by label
+  classPresence?: Record<string, Partial<PresenceRule>>;
+  // 0 follows every detection exactly; towards 1 boxes are steadier but lag behind motion
+  boxSmoothing?: number;
+  // Centre displacement, as a fraction of box width, that counts as a move
+  moveThreshold?: number;
+}
+
+export interface Tracker {
+  update(detections: Detection[], timestamp: number): TrackerUpdate;
+  // Every track, including ones not yet confirmed or currently missed
+  tracks(): Track[];
+  setOptions(options: TrackerOptions): void;
+  reset(): void;
+}
+
+// A single-frame misfire never reaches the user; an object has to turn up in 2 of 3 frames
+export const DEFAULT_PRESENCE: PresenceRule = { minHits: 2, window: 3, maxMisses: 3 };
+
+// Classes DETR often hallucinates from textures and shadows
+export const DEFAULT_CLASS_PRESENCE: Record<string, Partial<PresenceRule>> = {
+  tie: { minHits: 3, window: 4 },
+  remote: { minHits: 3, window: 4 },
+  'cell phone': { minHits: 3, window: 4 },
+};
+
+// Alpha-beta filter: a fixed-gain Kalman filter for a constant-velocity model. The position gain
+// is 1 - boxSmoothing.
+const DEFAULT_BOX_SMOOTHING = 0.4;
+const VELOCITY_GAIN = 0.3;
+// A track within a confusion group changes label only once the new one clearly has more evidence
+const LABEL_SWITCH_RATIO = 1.5;
+// Longer gaps (e.g. a paused scan) are not extrapolated further than this
+const MAX_PREDICTION_SECONDS = 1;
+
+interface Centred {
+  cx: number;
+  cy: number;
+  width: number;
+  height: number;
+}
+
+const toCentred = (box: BoundingBox): Centred => ({
+  cx: (box.xmin + box.xmax) / 2,
+  cy: (box.ymin + box.ymax) / 2,
+  width: box.xmax - box.xmin,
+  height: box.ymax - box.ymin,
+});
+
+const toBox = ({ cx, cy, width, height }: Centred): BoundingBox => ({
+  xmin: cx - width / 2,
+  ymin: cy - height / 2,
+  xmax: cx + width / 2,
+  ymax: cy + height / 2,
+});
+
+export const iou = (a: BoundingBox, b: BoundingBox): number => {
+  const width = Math.min(a.xmax, b.xmax) - Math.max(a.xmin, b.xmin);
+  const height = Math.min(a.ymax, b.ymax) - Math.max(a.ymin, b.ymin);
+  if (width <= 0 || height <= 0) return 0;
+
+  const intersection = width * height;
+  const areaA = (a.xmax - a.xmin) * (a.ymax - a.ymin);
+  const areaB = (b.xmax - b.xmin) * (b.ymax - b.ymin);
+  return intersection / (areaA + areaB - intersection);
+};
+
+// Tracks are mutated in place between frames, so callers only ever see copies
+const snapshot = (track: Track): Track => ({ ...track, box: { ...track.box }, velocity: { ...track.velocity } });
+
+const predict = (track: Track, dt: number): BoundingBox => {
+  const state = toCentred(track.box);
+  return toBox({
+    cx: state.cx + track.velocity.cx * dt,
+    cy: state.cy + track.velocity.cy * dt,
+    width: Math.max(1, state.width + track.velocity.width * dt),
+    height: Math.max(1, state.height + track.velocity.height * dt),
+  });
+};
+
+// Assigns persistent IDs to detections across frames. Matching is greedy by IoU within the same
+// label, which is plenty for the handful of objects a single camera frame holds.
+export const createTracker = (initialOptions: TrackerOptions = {}): Tracker => {
+  let options = initialOptions;
+  let tracks: Track[] = [];
+  let nextId = 1;
+  let lastTimestamp: number | null = null;
+  // Whether each unconfirmed track was matched in its recent frames, newest last
+  const recentMatches = new Map<number, boolean[]>();
+  // Centre at which each confirmed track last emitted 'enter' or 'move'
+  const reportedCentres = new Map<number, Centred>();
+  // Summed detection scores per label for each track, for settling confusion-group labels
+  const labelVotes = new Map<number, Map<string, number>>();
+
+  const vote = (track: Track, detection: Detection) => {
+    const votes = labelVotes.get(track.id) ?? new Map<string, number>();
+    votes.set(detection.label, (votes.get(detection.label) ?? 0) + detection.score);
+    labelVotes.set(track.id, votes);
+    const current = votes.get(track.label) ?? 0;
+    if (votes.get(detection.label)! > current * LABEL_SWITCH_RATIO) track.label = detection.label;
+  };
+
+  const forget = (track: Track) => {
+    recentMatches.delete(track.id);
+    reportedCentres.delete(track.id);
+    labelVotes.delete(track.id);
+  };
+
+  const ruleFor = (label: string): PresenceRule => ({
+    ...(options.presence ?? DEFAULT_PRESENCE),
+    ...(options.classPresence ?? DEFAULT_CLASS_PRESENCE)[label],
+  });
+  const isConfirmed = (track: Track) => reportedCentres.has(track.id);
+
+  // Records this frame for an unconfirmed track and confirms it, with an 'enter', once it has enough
+  // hits in the window. Returns false when it has missed too many frames to ever get there.
+  const observe = (track: Track, matched: boolean, events: TrackEvent[]) => {
+    const { minHits, window } = ruleFor(track.label);
+    const recent = [...(recentMatches.get(track.id) ?? []), matched].slice(-window);
+    if (recent.filter(Boolean).length >= minHits) {
+      recentMatches.delete(track.id);
+      reportedCentres.set(track.id, toCentred(track.box));
+      events.push({ type: 'enter', track: snapshot(track) });
+      return true;
+    }
+    if (track.misses > window - minHits) return false;
+    recentMatches.set(track.id, recent);
+    return true;
+  };
+
+  return {
+    update(detections, timestamp) {
+      const {
+        iouThreshold = 0.3,
+        classKey = (label: string) => label,
+        moveThreshold = 0.5,
+        boxSmoothing = DEFAULT_BOX_SMOOTHING,
+      } = options;
+      const positionGain = 1 - boxSmoothing;
+      const dt = lastTimestamp === null
+        ? 0
+        : Math.min(MAX_PREDICTION_SECONDS, (timestamp - lastTimestamp) / 1000);
+      lastTimestamp = timestamp;
+
+      const events: TrackEvent[] = [];
+      const predictions = new Map(tracks.map(track => [track.id, predict(track, dt)]));
+
+      const candidates: { track: Track; detection: Detection; overlap: number }[] = [];
+      tracks.forEach(track => {
+        detections.forEach(detection => {
+          if (classKey(detection.label) !== classKey(track.label)) return;
+          const overlap = iou(predictions.get(track.id)!, detection.box);
+          if (overlap >= iouThreshold) {
+            candidates.push({ track, detection, overlap });
+          }
+        });
+      });
+      candidates.sort((a, b) => b.overlap - a.overlap);
+
+      const matchedTracks = new Set<Track>();
+      const matchedDetections = new Set<Detection>();
+      candidates.forEach(({ track, detection }) => {
+        if (matchedTracks.has(track) || matchedDetections.has(detection)) return;
+        matchedTracks.add(track);
+        matchedDetections.add(detection);
+
+        const predicted = toCentred(predictions.get(track.id)!);
+        const measured = toCentred(detection.box);
+        const corrected: Centred = {
+          cx: predicted.cx + positionGain * (measured.cx - predicted.cx),
+          cy: predicted.cy + positionGain * (measured.cy - predicted.cy),
+          width: predicted.width + positionGain * (measured.width - predicted.width),
+          height: predicted.height + positionGain * (measured.height - predicted.height),
+        };
+        if (dt > 0) {
+          track.velocity = {
+            cx: track.velocity.cx + (VELOCITY_GAIN * (measured.cx - predicted.cx)) / dt,
+            cy: track.velocity.cy + (VELOCITY_GAIN * (measured.cy - predicted.cy)) / dt,
+            width: track.velocity.width + (VELOCITY_GAIN * (measured.width - predicted.width)) / dt,
+            height: track.velocity.height + (VELOCITY_GAIN * (measured.height - predicted.height)) / dt,
+          };
+        }
+        track.box = toBox(corrected);
+        track.score = detection.score;
+        vote(track, detection);
+        track.hits += 1;
+        track.misses = 0;
+        track.lastSeen = timestamp;
+
+        if (!isConfirmed(track)) {
+          observe(track, true, events);
+          return;
+        }
+        const reported = reportedCentres.get(track.id);
+        if (reported && Math.hypot(corrected.cx - reported.cx, corrected.cy - reported.cy) > moveThreshold * corrected.width) {
+          reportedCentres.set(track.id, corrected);
+          events.push({ type: 'move', track: snapshot(track) });
+        }
+      });
+
+      // Unmatched tracks coast on their prediction until they run out of misses. Unconfirmed ones
+      // are dropped without an 'exit' since nobody was told about them.
+      tracks = tracks.filter(track => {
+        if (matchedTracks.has(track)) return true;
+        track.box = predictions.get(track.id)!;
+        track.hits = 0;
+        track.misses += 1;
+        if (!isConfirmed(track)) {
+          const alive = observe(track, false, events);
+          if (!alive) forget(track);
+          return alive;
+        }
+        if (track.misses > ruleFor(track.label).maxMisses) {
+          forget(track);
+          events.push({ type: 'exit', track: snapshot(track) });
+          return false;
+        }
+        return true;
+      });
+
+      detections.forEach(detection => {
+        if (matchedDetections.has(detection)) return;
+        const track: Track = {
+          id: nextId++,
+          label: detection.label,
+          score: detection.score,
+          box: { ...detection.box },
+          velocity: { cx: 0, cy: 0, width: 0, height: 0 },
+          hits: 1,
+          misses: 0,
+          firstSeen: timestamp,
+          lastSeen: timestamp,
+        };
+        tracks.push(track);
+        vote(track, detection);
+        observe(track, true, events);
+      });
+
+      return { visible: tracks.filter(isConfirmed).map(snapshot), events };
+    },
+
+    tracks() {
+      return tracks.map(snapshot);
+    },
+
+    setOptions(next) {
+      options = next;
+    },
+
+    reset() {
+      tracks = [];
+      lastTimestamp = null;
+      recentMatches.clear();
+      reportedCentres.clear();
+      labelVotes.clear();
+    },
+  };
+};
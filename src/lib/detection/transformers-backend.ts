@@ -0,0 +1,65 @@
+import {
+  pipeline,
+  type DataType,
+  type DeviceType,
+  type ObjectDetectionPipeline,
+  type ObjectDetectionPipelineOutput,
+  type PretrainedModelOptions,
+} from '@huggingface/transformers';
+import { CONFIDENCE_RANGE } from './thresholds';
+import type { Detection, DetectorBackend, DetectorFrame } from './types';
+
+export interface TransformersBackendOptions {
+  name: string;
+  // Hugging Face model id or a path to a transformers.js-compatible ONNX export
+  model: string;
+  device?: DeviceType;
+  dtype?: DataType;
+  // Minimum score the pipeline keeps. transformers.js defaults to 0.9, which would make any lower
+  // threshold in the settings meaningless, so we default to the bottom of the settings range.
+  threshold?: number;
+}
+
+// The generic pipeline() signature is a union of every task, which is too large for tsc to resolve
+const loadObjectDetection = pipeline as unknown as (
+  task: 'object-detection',
+  model: string,
+  options: PretrainedModelOptions,
+) => Promise<ObjectDetectionPipeline>;
+
+// transformers.js cannot read ImageBitmap directly, so copy it onto a canvas first
+const toImageInput = (frame: DetectorFrame) => {
+  if (typeof ImageBitmap !== 'undefined' && frame instanceof ImageBitmap) {
+    const canvas = new OffscreenCanvas(frame.width, frame.height);
+    canvas.getContext('2d')?.drawImage(frame, 0, 0);
+    return canvas;
+  }
+  return frame as HTMLCanvasElement | OffscreenCanvas;
+};
+
+export const createTransformersBackend = (options: TransformersBackendOptions): DetectorBackend => {
+  const { name, model, device = 'webgpu', dtype, threshold = CONFIDENCE_RANGE.min } = options;
+  let detector: ObjectDetectionPipeline | null = null;
+
+  return {
+    capabilities: { name, model, device, dtype },
+
+    async load() {
+      if (detector) return;
+      detector = await loadObjectDetection('object-detection', model, { device, dtype });
+    },
+
+    async detect(frame) {
+      if (!detector) {
+        throw new Error(`${name} backend used before load()`);
+      }
+      const output = await detector(toImageInput(frame), { threshold });
+      return output as ObjectDetectionPipelineOutput as Detection[];
+    },
+
+    async dispose() {
+      await detector?.dispose();
+      detector = null;
+    },
+  };
+};
@@ -0,0 +1,36 @@
+import type { ExecutionModeId } from './device';
+
+export interface BoundingBox {
+  xmin: number;
+  ymin: number;
+  xmax: number;
+  ymax: number;
+}
+
+export interface Detection {
+  label: string;
+  score: number;
+  box: BoundingBox;
+}
+
+// Anything a backend can read pixels from. Boxes are returned in the frame's pixel space.
+export type DetectorFrame = HTMLCanvasElement | OffscreenCanvas | ImageBitmap;
+
+export interface BackendCapabilities {
+  // Short human-readable name, used in toasts and announcements
+  name: string;
+  model: string;
+  device: string;
+  dtype?: string;
+  // How the model ended up running, when it was chosen automatically
+  mode?: ExecutionModeId;
+  // Class labels the model can emit, when known up front
+  labels?: readonly string[];
+}
+
+export interface DetectorBackend {
+  readonly capabilities: BackendCapabilities;
+  load(): Promise<void>;
+  detect(frame: DetectorFrame): Promise<Detection[]>;
+  dispose(): Promise<void>;
+}
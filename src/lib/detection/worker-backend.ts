@@ -0,0 +1,103 @@
+import type { DetectorBackendConfig } from './config';
+import type { BackendCapabilities, Detection, DetectorBackend, DetectorFrame } from './types';
+import type { WorkerRequest, WorkerResponse } from './worker-protocol';
+
+interface PendingDetection {
+  resolve: (detections: Detection[]) => void;
+  reject: (error: Error) => void;
+}
+
+// Runs any backend config inside a dedicated worker so inference never blocks the UI thread.
+// The config is structured-cloned, so it must not contain functions (e.g. a scripted mock scene).
+export const createWorkerBackend = (config: DetectorBackendConfig): DetectorBackend => {
+  const name = config.kind === 'transformers' ? config.name : 'Mock detector';
+  const initialCapabilities: BackendCapabilities = {
+    name,
+    model: config.kind === 'transformers' ? config.model : 'mock',
+    device: 'auto',
+  };
+
+  let worker: Worker | null = null;
+  let capabilities = initialCapabilities;
+  let nextId = 0;
+  const pending = new Map<number, PendingDetection>();
+
+  const post = (request: WorkerRequest, transfer: Transferable[] = []) => {
+    worker?.postMessage(request, transfer);
+  };
+
+  const rejectAll = (error: Error) => {
+    pending.forEach(({ reject }) => reject(error));
+    pending.clear();
+  };
+
+  return {
+    get capabilities() {
+      return capabilities;
+    },
+
+    load() {
+      if (worker) return Promise.resolve();
+
+      worker = new Worker(new URL('../../workers/detector.worker.ts', import.meta.url), { type: 'module' });
+      const current = worker;
+
+      return new Promise<void>((resolve, reject) => {
+        current.onmessage = (event: MessageEvent<WorkerResponse>) => {
+          const response = event.data;
+          switch (response.type) {
+            case 'loaded':
+              capabilities = response.capabilities;
+              resolve();
+              break;
+            case 'load-error':
+              current.terminate();
+              if (worker === current) worker = null;
+              reject(new Error(response.message));
+              break;
+            case 'result':
+              pending.get(response.id)?.resolve(response.detections);
+              pending.delete(response.id);
+              break;
+            case 'detect-error':
+              pending.get(response.id)?.reject(new Error(response.message));
+              pending.delete(response.id);
+              break;
+          }
+        };
+
+        current.onerror = (event) => {
+          const error = new Error(event.message || 'Detector worker crashed');
+          rejectAll(error);
+          reject(error);
+        };
+
+        post({ type: 'load', config });
+      });
+    },
+
+    async detect(frame: DetectorFrame) {
+      if (!worker) {
+        throw new Error(`${name} backend used before load()`);
+      }
+
+      // ImageBitmaps are transferred, not copied; the caller must not use the frame afterwards
+      const bitmap = frame instanceof ImageBitmap ? frame : await createImageBitmap(frame);
+      const id = nextId++;
+
+      return new Promise<Detection[]>((resolve, reject) => {
+        pending.set(id, { resolve, reject });
+        post({ type: 'detect', id, frame: bitmap }, [bitmap]);
+      });
+    },
+
+    async dispose() {
+      if (!worker) return;
+      // Terminating the worker also releases the model's GPU and WASM memory
+      worker.terminate();
+      worker = null;
+      capabilities = initialCapabilities;
+      rejectAll(new Error(`${name} backend was disposed`));
+    },
+  };
+};
@@ -0,0 +1,14 @@
+import type { DetectorBackendConfig } from './config';
+import type { BackendCapabilities, Detection } from './types';
+
+// Messages between the main thread and src/workers/detector.worker.ts
+
+export type WorkerRequest =
+  | { type: 'load'; config: DetectorBackendConfig }
+  | { type: 'detect'; id: number; frame: ImageBitmap };
+
+export type WorkerResponse =
+  | { type: 'loaded'; capabilities: BackendCapabilities }
+  | { type: 'load-error'; message: string }
+  | { type: 'result'; id: number; detections: Detection[] }
+  | { type: 'detect-error'; id: number; message: string };
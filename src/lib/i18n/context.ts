@@ -0,0 +1,10 @@
+import { createContext } from 'react';
+import type { Locale } from './locales';
+import type { Translator } from './translator';
+
+export interface I18nContextValue extends Translator {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+}
+
+export const I18nContext = createContext<I18nContextValue | null>(null);
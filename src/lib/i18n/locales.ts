@@ -0,0 +1,50 @@
+import de from '@/locales/de';
+import en from '@/locales/en';
+import hi from '@/locales/hi';
+import type { Messages } from './translator';
+
+export interface LocaleInfo {
+  // Name of the language in that language, for the picker
+  name: string;
+  // BCP 47 tag handed to speech synthesis when choosing a voice
+  speechLang: string;
+  messages: Messages;
+}
+
+export const LOCALES = {
+  en: { name: 'English', speechLang: 'en-US', messages: en },
+  hi: { name: 'हिन्दी', speechLang: 'hi-IN', messages: hi },
+  de: { name: 'Deutsch', speechLang: 'de-DE', messages: de },
+} satisfies Record<string, LocaleInfo>;
+
+export type Locale = keyof typeof LOCALES;
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+const isLocale = (value: string): value is Locale => value in LOCALES;
+
+const LOCALE_STORAGE_KEY = 'blindvision.locale';
+
+// Saved choice first, then the browser's languages ("de-AT" matches "de"), then English
+export const detectLocale = (): Locale => {
+  try {
+    const stored = localStorage.getItem(LOCALE_STORAGE_KEY);
+    if (stored && isLocale(stored)) return stored;
+  } catch {
+    // Storage can be unavailable in private windows; fall through to the browser language
+  }
+
+  const preferred = navigator.languages?.length ? navigator.languages : [navigator.language];
+  const match = preferred
+    .map(language => language.split('-')[0].toLowerCase())
+    .find(isLocale);
+  return match ?? DEFAULT_LOCALE;
+};
+
+export const saveLocale = (locale: Locale) => {
+  try {
+    localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+  } catch {
+    // Not persisting the choice is harmless
+  }
+};
@@ -0,0 +1,46 @@
+import type en from '@/locales/en';
+
+// Plural forms follow Intl.PluralRules categories; `other` is always required
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+export type Message = string | PluralMessage;
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, Message>;
+
+export type MessageParams = Record<string, string | number>;
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+export interface Translator {
+  locale: string;
+  t: Translate;
+  formatNumber: (value: number) => string;
+}
+
+export const createTranslator = (locale: string, messages: Messages, fallback: Messages): Translator => {
+  const plurals = new Intl.PluralRules(locale);
+  const numbers = new Intl.NumberFormat(locale, { maximumFractionDigits: 1 });
+  const formatNumber = (value: number) => numbers.format(value);
+
+  const t: Translate = (key, params = {}) => {
+    let message = messages[key] ?? fallback[key];
+    if (typeof message !== 'string') {
+      const count = Number(params.count ?? 0);
+      message = message[plurals.select(count)] ?? message.other;
+    }
+    return message.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+      const value = params[name];
+      if (value === undefined) return placeholder;
+      return typeof value === 'number' ? formatNumber(value) : value;
+    });
+  };
+
+  return { locale, t, formatNumber };
+};
+
+export const capitalize = (text: string) => `${text.charAt(0).toUpperCase()}${text.slice(1)}`;
+
+// "a, b and c" with the locale's separators; Intl.ListFormat is not in our ES2020 lib target
+export const joinList = (items: string[], t: Translate) => {
+  if (items.length <= 1) return items.join('');
+  return `${items.slice(0, -1).join(t('list.separator'))}${t('list.lastSeparator')}${items[items.length - 1]}`;
+};
@@ -0,0 +1,82 @@
+import { z } from 'zod';
+import { VERBOSITY_LEVELS } from '@/lib/announcements/format';
+import { MAX_TARGET_FPS, MIN_TARGET_FPS } from '@/lib/detection/scheduler';
+import { DIRECTION_STYLES } from '@/lib/detection/spatial';
+import { CONFIDENCE_RANGE } from '@/lib/detection/thresholds';
+
+export const BUILTIN_PROFILE_IDS = ['outdoor', 'kitchen', 'reading'] as const;
+
+// Everything a profile remembers about how detection runs and what gets announced
+export const preferencesSchema = z.object({
+  speechEnabled: z.boolean(),
+  // Positional category sounds ahead of announcements; silenced with speech by the mute toggle
+  earconsEnabled: z.boolean().default(true),
+  confidence: z.number().min(CONFIDENCE_RANGE.min).max(CONFIDENCE_RANGE.max),
+  // Stricter or looser thresholds for particular classes, keyed by detector label
+  classThresholds: z.record(z.number().min(CONFIDENCE_RANGE.min).max(CONFIDENCE_RANGE.max)).default({}),
+  // Detector labels to detect exclusively (empty for all) or to drop entirely
+  includeClasses: z.array(z.string()).default([]),
+  excludeClasses: z.array(z.string()).default([]),
+  // Labels announced while the watchlist is on; the rest still appear in the overlay
+  watchlist: z.array(z.string()).default([]),
+  watchlistActive: z.boolean().default(false),
+  showDetections: z.boolean(),
+  targetFps: z.number().min(MIN_TARGET_FPS).max(MAX_TARGET_FPS),
+  directionStyle: z.enum(DIRECTION_STYLES),
+  verbosity: z.enum(VERBOSITY_LEVELS),
+});
+
+export const profileSchema = z.object({
+  id: z.string().min(1),
+  // Built-in profiles have no stored name so theirs follows the interface language
+  name: z.string().min(1).optional(),
+  preferences: preferencesSchema,
+});
+
+export const settingsSchema = z
+  .object({
+    version: z.literal(1),
+    activeProfileId: z.string(),
+    profiles: z.array(profileSchema).min(1),
+  })
+  .refine(settings => settings.profiles.some(profile => profile.id === settings.activeProfileId), {
+    message: 'activeProfileId must name one of the profiles',
+    path: ['activeProfileId'],
+  });
+
+export type BuiltinProfileId = (typeof BUILTIN_PROFILE_IDS)[number];
+export type Preferences = z.infer<typeof preferencesSchema>;
+export type Profile = z.infer<typeof profileSchema>;
+export type Settings = z.infer<typeof settingsSchema>;
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  speechEnabled: true,
+  earconsEnabled: true,
+  confidence: 0.5,
+  classThresholds: {},
+  includeClasses: [],
+  excludeClasses: [],
+  watchlist: [],
+  watchlistActive: false,
+  showDetections: true,
+  targetFps: 2,
+  directionStyle: 'sides',
+  verbosity: 'short',
+};
+
+// Outdoors favours quick, brief updates; in the kitchen there is time for detail and clock
+// directions help find things on the counter; reading is slow and names objects only.
+export const BUILTIN_PREFERENCES: Record<BuiltinProfileId, Preferences> = {
+  outdoor: { ...DEFAULT_PREFERENCES, targetFps: 3 },
+  kitchen: { ...DEFAULT_PREFERENCES, directionStyle: 'clock', verbosity: 'detailed' },
+  reading: { ...DEFAULT_PREFERENCES, targetFps: 1, verbosity: 'label', confidence: 0.6 },
+};
+
+export const DEFAULT_SETTINGS: Settings = {
+  version: 1,
+  activeProfileId: 'outdoor',
+  profiles: BUILTIN_PROFILE_IDS.map(id => ({ id, preferences: BUILTIN_PREFERENCES[id] })),
+};
+
+export const isBuiltinProfile = (id: string): id is BuiltinProfileId =>
+  (BUILTIN_PROFILE_IDS as readonly string[]).includes(id);
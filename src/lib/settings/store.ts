@@ -0,0 +1,132 @@
+import type { Translate } from '@/lib/i18n/translator';
+import {
+  DEFAULT_SETTINGS,
+  isBuiltinProfile,
+  settingsSchema,
+  type Preferences,
+  type Profile,
+  type Settings,
+} from './schema';
+
+export interface SettingsStore {
+  // Applies to the active profile and is saved straight away
+  updatePreferences(update: Partial<Preferences>): void;
+  switchProfile(id: string): void;
+  // Moves to the next profile in list order and returns it
+  cycleProfile(): Profile;
+  // Copies the active profile's preferences into a new profile and switches to it
+  createProfile(name: string): Profile;
+  // Built-in profiles and the last remaining profile cannot be deleted
+  deleteProfile(id: string): void;
+  // Replaces every profile with a validated export; false when the JSON is not one
+  importSettings(json: string): boolean;
+  exportSettings(): string;
+  getState(): Settings;
+  subscribe(listener: () => void): () => void;
+}
+
+const SETTINGS_KEY = 'blindvision.settings';
+
+export const parseSettings = (json: string): Settings | null => {
+  try {
+    const parsed = settingsSchema.safeParse(JSON.parse(json));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+};
+
+export const loadSettings = (): Settings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    return (stored && parseSettings(stored)) || DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: Settings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage full or blocked: the settings still apply for this session
+  }
+};
+
+export const getActiveProfile = (settings: Settings): Profile =>
+  settings.profiles.find(profile => profile.id === settings.activeProfileId) ?? settings.profiles[0];
+
+export const profileName = (profile: Profile, t: Translate) =>
+  profile.name ?? (isBuiltinProfile(profile.id) ? t(`profiles.builtin.${profile.id}`) : profile.id);
+
+// Profiles saved to localStorage on every change; stored and imported JSON is checked against the schema
+export const createSettingsStore = (initial: Settings = loadSettings()): SettingsStore => {
+  let state = initial;
+  const listeners = new Set<() => void>();
+
+  const setState = (next: Settings) => {
+    state = next;
+    saveSettings(state);
+    listeners.forEach(listener => listener());
+  };
+
+  return {
+    updatePreferences(update) {
+      setState({
+        ...state,
+        profiles: state.profiles.map(profile => (profile.id === state.activeProfileId
+          ? { ...profile, preferences: { ...profile.preferences, ...update } }
+          : profile)),
+      });
+    },
+
+    switchProfile(id) {
+      if (!state.profiles.some(profile => profile.id === id)) return;
+      setState({ ...state, activeProfileId: id });
+    },
+
+    cycleProfile() {
+      const index = state.profiles.findIndex(profile => profile.id === state.activeProfileId);
+      const next = state.profiles[(index + 1) % state.profiles.length];
+      setState({ ...state, activeProfileId: next.id });
+      return next;
+    },
+
+    createProfile(name) {
+      const profile: Profile = {
+        id: `custom-${Date.now().toString(36)}`,
+        name,
+        preferences: getActiveProfile(state).preferences,
+      };
+      setState({ ...state, activeProfileId: profile.id, profiles: [...state.profiles, profile] });
+      return profile;
+    },
+
+    deleteProfile(id) {
+      if (isBuiltinProfile(id) || state.profiles.length <= 1) return;
+      const profiles = state.profiles.filter(profile => profile.id !== id);
+      const activeProfileId = state.activeProfileId === id ? profiles[0].id : state.activeProfileId;
+      setState({ ...state, activeProfileId, profiles });
+    },
+
+    importSettings(json) {
+      const imported = parseSettings(json);
+      if (!imported) return false;
+      setState(imported);
+      return true;
+    },
+
+    exportSettings() {
+      return JSON.stringify(state, null, 2);
+    },
+
+    getState() {
+      return state;
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+};
@@ -0,0 +1,153 @@
+export type SpeechPriority = 'critical' | 'normal' | 'low';
+
+export interface SpeechRequest {
+  text: string;
+  priority?: SpeechPriority;
+  // Items sharing a key replace each other while queued; defaults to the text itself
+  key?: string;
+  // Spoken in the urgent alert voice, ahead of and cutting off everything that is not an alert
+  alert?: boolean;
+}
+
+export interface SpeechItem {
+  id: number;
+  text: string;
+  priority: SpeechPriority;
+  key: string;
+  alert: boolean;
+  enqueuedAt: number;
+}
+
+export interface SpeechQueueState {
+  current: SpeechItem | null;
+  pending: SpeechItem[];
+  enabled: boolean;
+}
+
+export interface SpeechQueueOptions {
+  synth?: SpeechSynthesis;
+  // Applies voice, rate, pitch and volume to each utterance before it is spoken
+  configure?: (utterance: SpeechSynthesisUtterance, item: SpeechItem) => void;
+}
+
+export interface SpeechQueue {
+  enqueue(request: SpeechRequest): void;
+  // Stops the current utterance and drops everything pending
+  cancelAll(): void;
+  // Disabling keeps the current utterance (e.g. "Audio disabled") but drops the rest
+  setEnabled(enabled: boolean): void;
+  setConfigure(configure: SpeechQueueOptions['configure']): void;
+  getState(): SpeechQueueState;
+  subscribe(listener: () => void): () => void;
+}
+
+const PRIORITY_RANK: Record<SpeechPriority, number> = { critical: 0, normal: 1, low: 2 };
+
+// Alerts outrank every priority, so a hazard warning never waits behind a long critical reply
+const rank = (item: SpeechItem) => (item.alert ? -1 : PRIORITY_RANK[item.priority]);
+
+// Queued items older than this are stale by the time they would be spoken. A hazard warning is
+// only useful for a moment; a late one describes where something was, not where it is.
+const MAX_AGE_MS: Record<SpeechPriority, number> = { critical: 15_000, normal: 20_000, low: 5_000 };
+const ALERT_MAX_AGE_MS = 3_000;
+
+const maxAge = (item: SpeechItem) => (item.alert ? ALERT_MAX_AGE_MS : MAX_AGE_MS[item.priority]);
+
+// Speaks one item at a time in priority order. Critical items cut off anything less urgent, and
+// alerts cut off anything that is not itself an alert.
+export const createSpeechQueue = (options: SpeechQueueOptions = {}): SpeechQueue => {
+  const synth = options.synth ?? window.speechSynthesis;
+  let configure = options.configure;
+  let state: SpeechQueueState = { current: null, pending: [], enabled: true };
+  let nextId = 0;
+  const listeners = new Set<() => void>();
+
+  const setState = (next: Partial<SpeechQueueState>) => {
+    state = { ...state, ...next };
+    listeners.forEach(listener => listener());
+  };
+
+  const speakNext = () => {
+    const now = Date.now();
+    const fresh = state.pending.filter(item => now - item.enqueuedAt <= maxAge(item));
+    const [item, ...rest] = fresh;
+    setState({ current: item ?? null, pending: rest });
+    if (!item) return;
+
+    const utterance = new SpeechSynthesisUtterance(item.text);
+    configure?.(utterance, item);
+
+    // A cancelled utterance still fires its handlers; only the current one may advance the queue
+    const finish = () => {
+      if (state.current?.id !== item.id) return;
+      speakNext();
+    };
+    utterance.onend = finish;
+    utterance.onerror = finish;
+    synth.speak(utterance);
+  };
+
+  return {
+    enqueue(request) {
+      if (!state.enabled) return;
+
+      const priority = request.priority ?? 'normal';
+      const item: SpeechItem = {
+        id: nextId++,
+        text: request.text,
+        priority,
+        key: request.key ?? request.text,
+        alert: request.alert ?? false,
+        enqueuedAt: Date.now(),
+      };
+
+      const { current } = state;
+      if (current && current.text === item.text && priority !== 'critical') return;
+
+      // Coalesce: a newer message with the same key supersedes the queued one
+      const pending = state.pending.filter(queued => queued.key !== item.key);
+      const index = pending.findIndex(queued => rank(queued) > rank(item));
+      pending.splice(index === -1 ? pending.length : index, 0, item);
+
+      const interrupt = current && rank(item) <= PRIORITY_RANK.critical && rank(current) > rank(item);
+
+      // A critical message cut off by an alert is said again straight after it, unless a newer one
+      // with its key is already waiting or it has gone stale. It gets a new id so the cancelled
+      // utterance's end event cannot advance the queue.
+      if (interrupt && current.priority === 'critical' && !pending.some(queued => queued.key === current.key)) {
+        const resumeAt = pending.findIndex(queued => rank(queued) >= rank(current));
+        pending.splice(resumeAt === -1 ? pending.length : resumeAt, 0, { ...current, id: nextId++ });
+      }
+      setState({ pending, current: interrupt ? null : current });
+
+      if (interrupt) {
+        synth.cancel();
+      }
+      if (!state.current) {
+        speakNext();
+      }
+    },
+
+    cancelAll() {
+      setState({ current: null, pending: [] });
+      synth.cancel();
+    },
+
+    setEnabled(enabled) {
+      setState(enabled ? { enabled } : { enabled, pending: [] });
+    },
+
+    setConfigure(next) {
+      configure = next;
+    },
+
+    getState() {
+      return state;
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+};
@@ -0,0 +1,56 @@
+import { z } from 'zod';
+import { DEFAULT_HORIZONTAL_FOV, HORIZONTAL_FOV_RANGE } from '@/lib/detection/spatial';
+
+// Web Speech accepts rate 0.1-10, but most engines clip or garble outside roughly 0.5-3
+export const RATE_RANGE = { min: 0.5, max: 3 } as const;
+export const PITCH_RANGE = { min: 0, max: 2 } as const;
+
+export const speechSettingsSchema = z.object({
+  // Chosen voice per interface language, by voiceURI; languages without one get the best match
+  voices: z.record(z.string()),
+  rate: z.number().min(RATE_RANGE.min).max(RATE_RANGE.max),
+  pitch: z.number().min(PITCH_RANGE.min).max(PITCH_RANGE.max),
+  volume: z.number().min(0).max(1),
+  // Stop self-voicing and leave announcements to the user's screen reader via the live regions
+  screenReaderMode: z.boolean().default(false),
+  // Calibration for this device's camera, so it stays put across profile switches and imports
+  horizontalFov: z.number().min(HORIZONTAL_FOV_RANGE.min).max(HORIZONTAL_FOV_RANGE.max).default(DEFAULT_HORIZONTAL_FOV),
+});
+
+export type SpeechSettings = z.infer<typeof speechSettingsSchema>;
+
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = {
+  voices: {},
+  rate: 0.9,
+  pitch: 1.1,
+  volume: 1,
+  screenReaderMode: false,
+  horizontalFov: DEFAULT_HORIZONTAL_FOV,
+};
+
+// Urgent alerts are spoken a little faster and higher than the chosen voice so they stand out
+export const alertProsody = ({ rate, pitch }: Pick<SpeechSettings, 'rate' | 'pitch'>) => ({
+  rate: Math.min(rate * 1.15, RATE_RANGE.max),
+  pitch: Math.min(pitch + 0.3, PITCH_RANGE.max),
+});
+
+const SPEECH_SETTINGS_KEY = 'blindvision.speech-settings';
+
+export const loadSpeechSettings = (): SpeechSettings => {
+  try {
+    const stored = localStorage.getItem(SPEECH_SETTINGS_KEY);
+    if (!stored) return DEFAULT_SPEECH_SETTINGS;
+    const parsed = speechSettingsSchema.safeParse(JSON.parse(stored));
+    return parsed.success ? parsed.data : DEFAULT_SPEECH_SETTINGS;
+  } catch {
+    return DEFAULT_SPEECH_SETTINGS;
+  }
+};
+
+export const saveSpeechSettings = (settings: SpeechSettings) => {
+  try {
+    localStorage.setItem(SPEECH_SETTINGS_KEY, JSON.stringify(settings));
+  } catch {
+    // Unsaved voice settings still apply until the page is closed
+  }
+};
@@ -0,0 +1,13 @@
+// Best installed voice for a BCP 47 tag: exact match ("de-DE"), then any voice for the language ("de-AT"),
+// preferring local voices since network ones can stall when offline. Null lets the browser pick.
+export const pickVoice = (voices: SpeechSynthesisVoice[], lang: string): SpeechSynthesisVoice | null => {
+  const target = lang.toLowerCase();
+  const language = target.split('-')[0];
+  const normalize = (voice: SpeechSynthesisVoice) => voice.lang.toLowerCase().replace('_', '-');
+
+  const candidates = [
+    ...voices.filter(voice => normalize(voice) === target),
+    ...voices.filter(voice => normalize(voice) !== target && normalize(voice).split('-')[0] === language),
+  ];
+  return candidates.find(voice => voice.localService) ?? candidates[0] ?? null;
+};
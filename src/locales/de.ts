@@ -0,0 +1,303 @@
+import type { Messages } from '@/lib/i18n/translator';
+
+const de: Messages = {
+  'app.tagline': 'Objekterkennung in Echtzeit mit Sprachführung für blinde und sehbehinderte Menschen',
+  'language.label': 'Sprache',
+
+  'toast.modelLoading.title': 'KI-Modell wird geladen',
+  'toast.modelLoading.description': 'Objekterkennungsmodell {name} wird initialisiert...',
+  'toast.modelReady.title': 'KI-Modell bereit',
+  'toast.modelReady.description': 'Die Objekterkennung ist jetzt verfügbar!',
+  'toast.modelReady.descriptionWithMode': 'Die Objekterkennung ist jetzt verfügbar und läuft auf {mode}.',
+  'toast.modelFailed.title': 'Modell konnte nicht geladen werden',
+  'toast.modelFailed.description': 'Das KI-Modell konnte weder auf der Grafikkarte noch auf dem Prozessor geladen werden. Bitte prüfen Sie Ihre Verbindung.',
+  'toast.cameraStarted.title': 'Kamera gestartet',
+  'toast.cameraStarted.description': 'Das Videobild ist jetzt aktiv',
+  'toast.cameraError.title': 'Kamerafehler',
+  'toast.cameraError.description': 'Kein Zugriff auf die Kamera. Bitte prüfen Sie die Berechtigungen.',
+  'toast.cameraStopped.title': 'Kamera gestoppt',
+  'toast.cameraStopped.description': 'Das Videobild wurde beendet',
+  'toast.profilesImported.title': 'Profile importiert',
+  'toast.profilesImported.description': 'Ihre Einstellungsprofile wurden aus der Datei wiederhergestellt.',
+  'toast.profilesImportFailed.title': 'Import fehlgeschlagen',
+  'toast.profilesImportFailed.description': 'Diese Datei ist kein BlindVision-Einstellungsexport.',
+
+  'speech.modelReady': 'Das BlindVision-Modell ist bereit. Sie können die Objekterkennung jetzt starten.',
+  'speech.modelReadyWithMode': 'Das BlindVision-Modell ist bereit und läuft auf {mode}. Sie können die Objekterkennung jetzt starten.',
+  'speech.modelFailed': 'Das KI-Modell konnte nicht geladen werden. Bitte prüfen Sie Ihre Verbindung.',
+  'speech.cameraStarted': 'Kamera gestartet. Sie können jetzt mit der Objekterkennung beginnen.',
+  'speech.cameraError': 'Kein Zugriff auf die Kamera. Bitte prüfen Sie die Kameraberechtigungen.',
+  'speech.cameraStopped': 'Kamera gestoppt.',
+  'speech.resuming': 'Die Suche wird fortgesetzt.',
+  'speech.detectionStarted': 'Objekterkennung gestartet. Ich sage Ihnen, was ich um Sie herum sehe.',
+  'speech.detectionStopped': 'Objekterkennung gestoppt.',
+  'speech.srModeOn': 'Screenreader-Modus an. Ansagen gehen an Ihren Screenreader.',
+  'speech.srModeOff': 'Screenreader-Modus aus. Ansagen werden vorgelesen.',
+  'speech.profileChanged': 'Profil: {name}.',
+  'speech.watchlistOn': 'Merkliste an. Angesagt wird nur: {items}.',
+  'speech.watchlistEmpty': 'Merkliste an, aber sie ist leer. Nur Warnungen werden angesagt.',
+  'speech.watchlistOff': 'Merkliste aus. Alles wird angesagt.',
+  'speech.earconsOn': 'Klangsignale an.',
+  'speech.earconsOff': 'Klangsignale aus.',
+  'speech.audioDisabled': 'Ton aus',
+  'speech.audioEnabled': 'Ton an',
+  'speech.verbosityChanged': 'Ansagen: {level}',
+
+  'mode.webgpu-fp16': 'der Grafikkarte, schneller Modus',
+  'mode.webgpu-fp32': 'der Grafikkarte, volle Genauigkeit',
+  'mode.wasm-q8': 'dem Prozessor, langsamer Modus',
+
+  'position.left': 'links von Ihnen',
+  'position.ahead': 'direkt vor Ihnen',
+  'position.right': 'rechts von Ihnen',
+  'position.clock': 'auf {hour} Uhr',
+  'position.low': '{direction}, weit unten',
+  'position.high': '{direction}, weit oben',
+  'position.withDistance': '{position}, {distance}',
+  'side.left': 'links',
+  'side.ahead': 'vorne',
+  'side.right': 'rechts',
+  'distance.underOneMetre': 'weniger als einen Meter entfernt',
+  'distance.about': { one: 'etwa {count} Meter entfernt', other: 'etwa {count} Meter entfernt' },
+  'distance.within': { one: 'innerhalb von {count} Meter', other: 'innerhalb von {count} Metern' },
+
+  'hazard.approaching': '{name} nähert sich, {side}',
+  'hazard.approachingFast': '{name} nähert sich schnell, {side}',
+
+  'announce.labels': '{labels}.',
+  'announce.short': '{name} {location}.',
+  'announce.detailedOne': '{location}: {description}',
+  'announce.danger': 'Gefahr! {announcement}',
+
+  'summary.clause': '{items} {where}',
+  'summary.separator': '; ',
+  'summary.sentence': '{clauses}.',
+  'summary.count': '{count} {name}',
+  'summary.overflow': 'außerdem {items}',
+  'summary.more': { one: '{count} weiteres Objekt', other: '{count} weitere Objekte' },
+  'summary.category.person': { one: 'eine Person', other: '{count} Personen' },
+  'summary.category.vehicle': { one: 'ein Fahrzeug', other: '{count} Fahrzeuge' },
+  'summary.category.street': { one: 'ein Objekt an der Straße', other: '{count} Objekte an der Straße' },
+  'summary.category.animal': { one: 'ein Tier', other: '{count} Tiere' },
+  'summary.category.accessory': { one: 'ein Accessoire', other: '{count} Accessoires' },
+  'summary.category.sports': { one: 'ein Sportgerät', other: '{count} Sportgeräte' },
+  'summary.category.kitchen': { one: 'ein Küchengegenstand', other: '{count} Küchengegenstände' },
+  'summary.category.food': { one: 'ein Lebensmittel', other: '{count} Lebensmittel' },
+  'summary.category.furniture': { one: 'ein Möbelstück', other: '{count} Möbelstücke' },
+  'summary.category.electronics': { one: 'ein Elektronikgerät', other: '{count} Elektronikgeräte' },
+  'summary.category.appliance': { one: 'ein Haushaltsgerät', other: '{count} Haushaltsgeräte' },
+  'summary.category.household': { one: 'ein Haushaltsgegenstand', other: '{count} Haushaltsgegenstände' },
+  'summary.category.other': { one: 'ein Objekt', other: '{count} Objekte' },
+
+  'list.separator': ', ',
+  'list.lastSeparator': ' und ',
+
+  'inventory.button': 'Was ist um mich herum?',
+  'inventory.aria': 'Jetzt alles im Bild beschreiben',
+  'inventory.notRunning': 'Die Erkennung läuft nicht. Drücken Sie die Leertaste, um sie zu starten.',
+  'inventory.empty': 'Gerade ist nichts im Bild.',
+  'inventory.count': { one: '{count} Objekt im Bild.', other: '{count} Objekte im Bild.' },
+  'inventory.group': '{items} {where}.',
+  'inventory.groupWithDistance': '{items} {where}, das nächste {distance}.',
+
+  'verbosity.title': 'Ausführlichkeit der Ansagen',
+  'verbosity.label': 'Nur Namen',
+  'verbosity.short': 'Kurz',
+  'verbosity.detailed': 'Ausführlich',
+
+  'status.loading': 'KI wird geladen...',
+  'status.ready': 'Bereit',
+  'status.scanning': 'Suche läuft...',
+  'status.fps': '{fps} fps',
+  'status.speaking': 'Spricht',
+  'status.queued': '({count} in der Warteschlange)',
+  'live.title': 'Aktuelle Erkennungen:',
+
+  'live.logLabel': 'Ansagen',
+  'live.alertLabel': 'Warnungen',
+  'srMode.label': 'Screenreader-Modus',
+  'srMode.enableAria': 'Screenreader-Modus einschalten: nicht mehr selbst sprechen, sondern Ansagen an Ihren Screenreader senden',
+  'srMode.disableAria': 'Screenreader-Modus ausschalten und Ansagen wieder vorlesen',
+  'detection.start': 'Erkennung starten',
+  'detection.stop': 'Erkennung stoppen',
+  'detection.loading': 'KI-Modell wird geladen...',
+  'detection.startAria': 'Objekterkennung starten',
+  'detection.stopAria': 'Objekterkennung stoppen',
+  'audio.on': 'Ton an',
+  'audio.off': 'Ton aus',
+  'audio.enableAria': 'Ton einschalten',
+  'audio.disableAria': 'Ton ausschalten',
+  'earcons.on': 'Klangsignale an',
+  'earcons.off': 'Klangsignale aus',
+  'earcons.enableAria': 'Richtungs-Klangsignale vor Ansagen einschalten',
+  'earcons.disableAria': 'Richtungs-Klangsignale ausschalten',
+  'camera.start': 'Kamera starten',
+  'camera.stop': 'Kamera stoppen',
+  'boxes.show': 'Rahmen zeigen',
+  'boxes.hide': 'Rahmen ausblenden',
+  'boxes.showAria': 'Erkennungsrahmen anzeigen',
+  'boxes.hideAria': 'Erkennungsrahmen ausblenden',
+  'resume.label': 'Jetzt fortsetzen',
+  'resume.aria': 'Ansagen sofort fortsetzen und Wartezeiten ignorieren',
+  'direction.sides': 'Links / Rechts',
+  'direction.clock': 'Uhrzeit',
+  'direction.useClockAria': 'Richtungen als Uhrzeit angeben',
+  'direction.useSidesAria': 'Richtungen als links, vorne und rechts angeben',
+
+  'scanRate.label': 'Ziel-Bildrate',
+  'scanRate.value': '{fps} fps',
+  'scanRate.actual': '(tatsächlich {fps}, {latency} ms pro Durchlauf)',
+  'fov.label': 'Sichtfeld der Kamera',
+  'fov.value': '{degrees}° (für Richtung und Entfernung)',
+
+  'indicator.detection': 'Erkennung',
+  'indicator.audio': 'Ton',
+  'indicator.camera': 'Kamera',
+  'indicator.active': 'Aktiv',
+  'indicator.inactive': 'Inaktiv',
+  'indicator.enabled': 'An',
+  'indicator.disabled': 'Aus',
+
+  'help.title': 'Bedienung',
+  'help.spaceKey': 'Leertaste:',
+  'help.space': 'Objekterkennung starten/stoppen',
+  'help.mKey': 'Taste M:',
+  'help.m': 'Ton ein-/ausschalten',
+  'help.rKey': 'Taste R:',
+  'help.r': 'Ansagen sofort fortsetzen und alles im Bild neu ansagen',
+  'help.vKey': 'Taste V:',
+  'help.v': 'Ausführlichkeit wechseln: nur Namen, kurz, ausführlich',
+  'help.wKey': 'Taste W oder Doppeltippen auf das Video:',
+  'help.w': 'Was ist um mich herum? Alles im Bild beschreiben',
+  'help.lKey': 'Taste L:',
+  'help.l': 'Letzte Ansage wiederholen',
+  'help.navKey': 'Tasten , und .:',
+  'help.nav': 'Durch frühere Ansagen vor- und zurückblättern',
+  'help.eKey': 'Taste E:',
+  'help.e': 'Klangsignale ein- oder ausschalten: ein kurzer Ton pro Objekt, aus seiner Richtung. Am besten mit Kopfhörern',
+  'help.fKey': 'Taste F:',
+  'help.f': 'Merkliste ein- oder ausschalten, um nur die gewählten Objekte zu hören',
+  'help.pKey': 'Taste P:',
+  'help.p': 'Zum nächsten Einstellungsprofil wechseln',
+  'help.sKey': 'Taste S:',
+  'help.s': 'Screenreader-Modus umschalten, für NVDA, VoiceOver, TalkBack und Braillezeilen',
+  'help.voiceGuideKey': 'Sprachführung:',
+  'help.voiceGuide': 'Hören Sie die Beschreibungen der Objekte in Echtzeit',
+  'help.tipKey': 'Tipp:',
+  'help.tip': 'Richten Sie die Kamera auf Objekte, um die besten Ergebnisse zu erhalten',
+
+  'queue.title': 'Sprachwarteschlange',
+  'queue.aria': 'Sprachwarteschlange',
+  'queue.clear': 'Leeren',
+  'queue.clearAria': 'Sprechen beenden und Warteschlange leeren',
+  'queue.speaking': 'Spricht: ',
+  'priority.critical': 'Kritisch',
+  'priority.normal': 'Normal',
+  'priority.low': 'Niedrig',
+
+  'history.title': 'Verlauf der Ansagen',
+  'history.previous': 'Zurück',
+  'history.previousAria': 'Vorherige Ansage vorlesen',
+  'history.repeat': 'Wiederholen',
+  'history.repeatAria': 'Letzte Ansage wiederholen',
+  'history.next': 'Weiter',
+  'history.nextAria': 'Nächste Ansage vorlesen',
+  'history.clear': 'Leeren',
+  'history.empty': 'Bisher wurde nichts angesagt.',
+
+  'profiles.open': 'Profil: {name}',
+  'profiles.openAria': 'Einstellungsprofile. Aktuelles Profil: {name}',
+  'profiles.title': 'Einstellungsprofile',
+  'profiles.description': 'Jedes Profil merkt sich Ton, Rahmen, Scanrate, Richtungsangaben, Detailstufe und Sichtfeld. Änderungen werden im aktiven Profil auf diesem Gerät gespeichert.',
+  'profiles.active': 'Aktives Profil',
+  'profiles.builtin.outdoor': 'Spaziergang',
+  'profiles.builtin.kitchen': 'Küche',
+  'profiles.builtin.reading': 'Lesen',
+  'profiles.delete': 'Löschen',
+  'profiles.newName': 'Name des neuen Profils',
+  'profiles.create': 'Als neu speichern',
+  'profiles.createHint': 'Übernimmt die Einstellungen von {name}.',
+  'profiles.transfer': 'Sichern oder auf ein anderes Gerät übertragen',
+  'profiles.export': 'JSON exportieren',
+  'profiles.import': 'JSON importieren',
+
+  'thresholds.open': 'Erkennung',
+  'thresholds.openAria': 'Einstellungen zur Erkennungssicherheit',
+  'thresholds.title': 'Erkennungssicherheit',
+  'thresholds.description': 'Objekte, bei denen sich das Modell weniger sicher ist, werden ignoriert. Höher gegen Fehlalarme, niedriger um mehr zu erkennen. Wird im aktiven Profil gespeichert.',
+  'thresholds.global': 'Alle Objekte',
+  'thresholds.globalHint': 'Gilt für jede Klasse ohne eigenen Schwellenwert.',
+  'thresholds.perClass': 'Schwellenwerte pro Objekt',
+  'thresholds.customCount': { one: '{count} angepasst', other: '{count} angepasst' },
+  'thresholds.search': 'Objekte suchen...',
+  'thresholds.customAria': 'Eigenen Schwellenwert für {name} verwenden',
+  'thresholds.classAria': 'Schwellenwert für {name}',
+
+  'filters.open': 'Filter',
+  'filters.openAria': 'Objektfilter und Merkliste',
+  'filters.title': 'Objektfilter',
+  'filters.description': 'Legen Sie fest, welche Objekte erkannt und welche angesagt werden. Wird im aktiven Profil gespeichert.',
+  'filters.watchlistActive': 'Nur Objekte der Merkliste ansagen',
+  'filters.watchlist': 'Merkliste',
+  'filters.include': 'Nur erkennen',
+  'filters.exclude': 'Ignorieren',
+  'filters.watchlistHint': 'Solange die Merkliste an ist, werden nur diese angesagt. Alles andere bleibt auf dem Bildschirm sichtbar, und Warnungen werden immer angesagt.',
+  'filters.includeClassesHint': 'Wenn etwas angehakt ist, wird nichts anderes erkannt.',
+  'filters.excludeClassesHint': 'Diese werden nie erkannt, angezeigt oder angesagt.',
+  'filters.search': 'Objekte suchen...',
+  'filters.clear': 'Leeren',
+  'filters.selected': { one: '{count} ausgewählt', other: '{count} ausgewählt' },
+
+  'speechSettings.open': 'Stimme',
+  'speechSettings.openAria': 'Einstellungen für Stimme, Tempo und Lautstärke',
+  'speechSettings.title': 'Spracheinstellungen',
+  'speechSettings.description': 'Wählen Sie die Stimme und wie schnell sie spricht. Die Einstellungen werden auf diesem Gerät gespeichert.',
+  'speechSettings.voice': 'Stimme',
+  'speechSettings.voiceAuto': 'Automatisch',
+  'speechSettings.voiceAutoNamed': 'Automatisch ({name})',
+  'speechSettings.otherLanguages': 'Andere Sprachen',
+  'speechSettings.noVoices': 'Keine Stimmen installiert; die Standardstimme des Browsers wird verwendet.',
+  'speechSettings.rate': 'Tempo',
+  'speechSettings.pitch': 'Tonhöhe',
+  'speechSettings.volume': 'Lautstärke',
+  'speechSettings.preview': 'Probe hören',
+  'speechSettings.previewText': 'So klingt BlindVision. Ein Stuhl links von Ihnen, etwa 2 Meter entfernt.',
+  'speechSettings.reset': 'Zurücksetzen',
+
+  'catalog.open': 'Beschreibungen',
+  'catalog.openAria': 'Objektbeschreibungen bearbeiten',
+  'catalog.title': 'Objektbeschreibungen',
+  'catalog.description': 'Legen Sie fest, wie jedes Objekt angesagt wird. Änderungen werden auf diesem Gerät gespeichert.',
+  'catalog.search': 'Objekte suchen',
+  'catalog.edited': 'bearbeitet',
+  'catalog.staleOverrides': 'Einige Änderungen wurden für eine frühere Version dieser Beschreibungen gemacht. Bitte prüfen und dann bestätigen.',
+  'catalog.confirmOverrides': 'Änderungen behalten',
+  'catalog.choose': 'Wählen Sie ein Objekt, um seine Beschreibung zu bearbeiten.',
+  'catalog.name': 'Name',
+  'catalog.plural': 'Mehrzahl',
+  'catalog.short': 'Kurzname',
+  'catalog.shortHint': 'Wird in kurzen Ansagen verwendet, z. B. „Ihre blaue Tasse".',
+  'catalog.long': 'Ausführliche Beschreibung',
+  'catalog.synonyms': 'Andere Namen (durch Kommas getrennt)',
+  'catalog.save': 'Speichern',
+  'catalog.reset': 'Zurücksetzen',
+
+  'category.person': 'Person',
+  'category.vehicle': 'Fahrzeug',
+  'category.street': 'Straße',
+  'category.animal': 'Tier',
+  'category.accessory': 'Zubehör',
+  'category.sports': 'Sport',
+  'category.kitchen': 'Küche',
+  'category.food': 'Essen',
+  'category.furniture': 'Möbel',
+  'category.electronics': 'Elektronik',
+  'category.appliance': 'Haushaltsgerät',
+  'category.household': 'Haushalt',
+  'category.other': 'Sonstiges',
+  'hazardLevel.info': 'Hinweis',
+  'hazardLevel.caution': 'Vorsicht',
+  'hazardLevel.danger': 'Gefahr',
+};
+
+export default de;
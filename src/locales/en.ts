@@ -0,0 +1,304 @@
+// Source locale: every other locale must provide the same keys (checked by the Messages type).
+// `{name}` placeholders are filled by the translator; numbers are formatted for the locale.
+// Object-shaped messages are plural forms selected by the `count` parameter.
+const en = {
+  'app.tagline': 'Real-time object detection with audio guidance for the visually impaired',
+  'language.label': 'Language',
+
+  'toast.modelLoading.title': 'Loading AI Model',
+  'toast.modelLoading.description': 'Initializing {name} object detection model...',
+  'toast.modelReady.title': 'AI Model Ready',
+  'toast.modelReady.description': 'Object detection is now available!',
+  'toast.modelReady.descriptionWithMode': 'Object detection is now available, running on {mode}.',
+  'toast.modelFailed.title': 'Model Loading Failed',
+  'toast.modelFailed.description': 'Failed to load AI model on both graphics card and processor. Please check your connection.',
+  'toast.cameraStarted.title': 'Camera Started',
+  'toast.cameraStarted.description': 'Video feed is now active',
+  'toast.cameraError.title': 'Camera Error',
+  'toast.cameraError.description': 'Unable to access camera. Please check permissions.',
+  'toast.cameraStopped.title': 'Camera Stopped',
+  'toast.cameraStopped.description': 'Video feed has been stopped',
+  'toast.profilesImported.title': 'Profiles Imported',
+  'toast.profilesImported.description': 'Your settings profiles have been restored from the file.',
+  'toast.profilesImportFailed.title': 'Import Failed',
+  'toast.profilesImportFailed.description': 'That file is not a BlindVision settings export.',
+
+  'speech.modelReady': 'BlindVision AI model is ready. You can now start object detection.',
+  'speech.modelReadyWithMode': 'BlindVision AI model is ready, running on {mode}. You can now start object detection.',
+  'speech.modelFailed': 'The AI model could not be loaded. Please check your connection.',
+  'speech.cameraStarted': 'Camera started. You can now begin object detection.',
+  'speech.cameraError': 'Unable to access camera. Please check camera permissions.',
+  'speech.cameraStopped': 'Camera stopped.',
+  'speech.resuming': 'Resuming object detection scan.',
+  'speech.detectionStarted': 'Object detection started. I will announce what I see around you.',
+  'speech.detectionStopped': 'Object detection stopped.',
+  'speech.srModeOn': 'Screen reader mode on. Announcements will go to your screen reader.',
+  'speech.srModeOff': 'Screen reader mode off. Announcements will be spoken aloud.',
+  'speech.profileChanged': 'Profile: {name}.',
+  'speech.watchlistOn': 'Watchlist on. Announcing only {items}.',
+  'speech.watchlistEmpty': 'Watchlist on, but it is empty. Only warnings will be spoken.',
+  'speech.watchlistOff': 'Watchlist off. Announcing everything.',
+  'speech.earconsOn': 'Sound cues on.',
+  'speech.earconsOff': 'Sound cues off.',
+  'speech.audioDisabled': 'Audio disabled',
+  'speech.audioEnabled': 'Audio enabled',
+  'speech.verbosityChanged': '{level} announcements',
+
+  'mode.webgpu-fp16': 'graphics card, fast mode',
+  'mode.webgpu-fp32': 'graphics card, full precision',
+  'mode.wasm-q8': 'processor only, slower mode',
+
+  'position.left': 'on your left',
+  'position.ahead': 'straight ahead',
+  'position.right': 'on your right',
+  'position.clock': 'at your {hour} o\'clock',
+  'position.low': '{direction}, low down',
+  'position.high': '{direction}, up high',
+  'position.withDistance': '{position}, {distance}',
+  'side.left': 'left',
+  'side.ahead': 'ahead',
+  'side.right': 'right',
+  'distance.underOneMetre': 'less than a metre away',
+  'distance.about': { one: 'about {count} metre away', other: 'about {count} metres away' },
+  'distance.within': { one: 'within {count} metre', other: 'within {count} metres' },
+
+  'hazard.approaching': '{name} approaching, {side}',
+  'hazard.approachingFast': '{name} approaching fast, {side}',
+
+  'announce.labels': '{labels}.',
+  'announce.short': '{name} {location}.',
+  'announce.detailedOne': '{location}: {description}',
+  'announce.danger': 'Danger! {announcement}',
+
+  'summary.clause': '{items} {where}',
+  'summary.separator': '; ',
+  'summary.sentence': '{clauses}.',
+  'summary.count': '{count} {name}',
+  'summary.overflow': 'plus {items}',
+  'summary.more': { one: '{count} more object', other: '{count} more objects' },
+  'summary.category.person': { one: 'a person', other: '{count} people' },
+  'summary.category.vehicle': { one: 'a vehicle', other: '{count} vehicles' },
+  'summary.category.street': { one: 'a street object', other: '{count} street objects' },
+  'summary.category.animal': { one: 'an animal', other: '{count} animals' },
+  'summary.category.accessory': { one: 'a bag or accessory', other: '{count} bags and accessories' },
+  'summary.category.sports': { one: 'a piece of sports gear', other: '{count} pieces of sports gear' },
+  'summary.category.kitchen': { one: 'a kitchen item', other: '{count} kitchen items' },
+  'summary.category.food': { one: 'a food item', other: '{count} food items' },
+  'summary.category.furniture': { one: 'a piece of furniture', other: '{count} pieces of furniture' },
+  'summary.category.electronics': { one: 'an electronic device', other: '{count} electronic devices' },
+  'summary.category.appliance': { one: 'an appliance', other: '{count} appliances' },
+  'summary.category.household': { one: 'a household item', other: '{count} household items' },
+  'summary.category.other': { one: 'an object', other: '{count} objects' },
+
+  'list.separator': ', ',
+  'list.lastSeparator': ' and ',
+
+  'inventory.button': 'What\'s Around Me?',
+  'inventory.aria': 'Describe everything in view now',
+  'inventory.notRunning': 'Detection is not running. Press Space to start it.',
+  'inventory.empty': 'Nothing in view right now.',
+  'inventory.count': { one: '{count} object in view.', other: '{count} objects in view.' },
+  'inventory.group': '{items} {where}.',
+  'inventory.groupWithDistance': '{items} {where}, the nearest {distance}.',
+
+  'verbosity.title': 'Announcement detail',
+  'verbosity.label': 'Labels only',
+  'verbosity.short': 'Short',
+  'verbosity.detailed': 'Detailed',
+
+  'status.loading': 'Loading AI...',
+  'status.ready': 'Ready',
+  'status.scanning': 'Scanning...',
+  'status.fps': '{fps} fps',
+  'status.speaking': 'Speaking',
+  'status.queued': '({count} queued)',
+  'live.title': 'Live Detections:',
+
+  'live.logLabel': 'Announcements',
+  'live.alertLabel': 'Warnings',
+  'srMode.label': 'Screen Reader Mode',
+  'srMode.enableAria': 'Turn on screen reader mode: stop speaking and send announcements to your screen reader',
+  'srMode.disableAria': 'Turn off screen reader mode and speak announcements aloud',
+  'detection.start': 'Start Detection',
+  'detection.stop': 'Stop Detection',
+  'detection.loading': 'Loading AI Model...',
+  'detection.startAria': 'Start object detection',
+  'detection.stopAria': 'Stop object detection',
+  'audio.on': 'Audio On',
+  'audio.off': 'Audio Off',
+  'audio.enableAria': 'Enable audio',
+  'audio.disableAria': 'Disable audio',
+  'earcons.on': 'Sound Cues On',
+  'earcons.off': 'Sound Cues Off',
+  'earcons.enableAria': 'Turn on directional sound cues before announcements',
+  'earcons.disableAria': 'Turn off directional sound cues',
+  'camera.start': 'Start Camera',
+  'camera.stop': 'Stop Camera',
+  'boxes.show': 'Show Boxes',
+  'boxes.hide': 'Hide Boxes',
+  'boxes.showAria': 'Show detection boxes',
+  'boxes.hideAria': 'Hide detection boxes',
+  'resume.label': 'Resume Now',
+  'resume.aria': 'Resume announcements now, ignoring cooldowns',
+  'direction.sides': 'Left / Right',
+  'direction.clock': 'Clock Face',
+  'direction.useClockAria': 'Use clock-face directions',
+  'direction.useSidesAria': 'Use left, ahead and right directions',
+
+  'scanRate.label': 'Target scan rate',
+  'scanRate.value': '{fps} fps',
+  'scanRate.actual': '(actual {fps}, {latency} ms per scan)',
+  'fov.label': 'Camera field of view',
+  'fov.value': '{degrees}° (used for direction and distance)',
+
+  'indicator.detection': 'Detection',
+  'indicator.audio': 'Audio',
+  'indicator.camera': 'Camera',
+  'indicator.active': 'Active',
+  'indicator.inactive': 'Inactive',
+  'indicator.enabled': 'Enabled',
+  'indicator.disabled': 'Disabled',
+
+  'help.title': 'How to Use',
+  'help.spaceKey': 'Spacebar:',
+  'help.space': 'Start/Stop object detection',
+  'help.mKey': 'M key:',
+  'help.m': 'Toggle audio on/off',
+  'help.rKey': 'R key:',
+  'help.r': 'Resume announcements now, re-announcing everything in view',
+  'help.vKey': 'V key:',
+  'help.v': 'Cycle announcement detail: labels only, short, detailed',
+  'help.wKey': 'W key or double-tap the video:',
+  'help.w': 'What\'s around me? Describe everything in view',
+  'help.lKey': 'L key:',
+  'help.l': 'Repeat the last announcement',
+  'help.navKey': ', and . keys:',
+  'help.nav': 'Step back and forward through past announcements',
+  'help.eKey': 'E key:',
+  'help.e': 'Turn sound cues on or off: a short tone for each object, heard from its direction. Best with headphones',
+  'help.fKey': 'F key:',
+  'help.f': 'Turn the watchlist on or off, to hear only the objects you chose',
+  'help.pKey': 'P key:',
+  'help.p': 'Switch to the next settings profile',
+  'help.sKey': 'S key:',
+  'help.s': 'Toggle screen reader mode, for NVDA, VoiceOver, TalkBack and braille displays',
+  'help.voiceGuideKey': 'Voice Guide:',
+  'help.voiceGuide': 'Listen for real-time object descriptions',
+  'help.tipKey': 'Tip:',
+  'help.tip': 'Point your camera at objects for best results',
+
+  'queue.title': 'Speech Queue',
+  'queue.aria': 'Speech queue',
+  'queue.clear': 'Clear',
+  'queue.clearAria': 'Stop speaking and clear the queue',
+  'queue.speaking': 'Speaking: ',
+  'priority.critical': 'Critical',
+  'priority.normal': 'Normal',
+  'priority.low': 'Low',
+
+  'history.title': 'Announcement History',
+  'history.previous': 'Previous',
+  'history.previousAria': 'Read the previous announcement',
+  'history.repeat': 'Repeat Last',
+  'history.repeatAria': 'Repeat the last announcement',
+  'history.next': 'Next',
+  'history.nextAria': 'Read the next announcement',
+  'history.clear': 'Clear',
+  'history.empty': 'Nothing has been announced yet.',
+
+  'profiles.open': 'Profile: {name}',
+  'profiles.openAria': 'Settings profiles. Current profile: {name}',
+  'profiles.title': 'Settings Profiles',
+  'profiles.description': 'Each profile remembers audio, boxes, scan rate, directions, detail level and field of view. Changes are saved to the active profile on this device.',
+  'profiles.active': 'Active profile',
+  'profiles.builtin.outdoor': 'Outdoor walk',
+  'profiles.builtin.kitchen': 'Kitchen',
+  'profiles.builtin.reading': 'Reading',
+  'profiles.delete': 'Delete',
+  'profiles.newName': 'New profile name',
+  'profiles.create': 'Save as New',
+  'profiles.createHint': 'Starts with the settings of {name}.',
+  'profiles.transfer': 'Back up or move to another device',
+  'profiles.export': 'Export JSON',
+  'profiles.import': 'Import JSON',
+
+  'thresholds.open': 'Detection',
+  'thresholds.openAria': 'Detection confidence settings',
+  'thresholds.title': 'Detection Confidence',
+  'thresholds.description': 'Objects the model is less sure about than this are ignored. Raise it to cut false alarms, lower it to catch more. Saved to the active profile.',
+  'thresholds.global': 'All objects',
+  'thresholds.globalHint': 'Used for every class without its own threshold.',
+  'thresholds.perClass': 'Per-object thresholds',
+  'thresholds.customCount': { one: '{count} custom', other: '{count} custom' },
+  'thresholds.search': 'Search objects...',
+  'thresholds.customAria': 'Use a separate threshold for {name}',
+  'thresholds.classAria': 'Threshold for {name}',
+
+  'filters.open': 'Filters',
+  'filters.openAria': 'Object filters and watchlist',
+  'filters.title': 'Object Filters',
+  'filters.description': 'Choose which objects are detected and which are announced. Saved to the active profile.',
+  'filters.watchlistActive': 'Announce only watchlist objects',
+  'filters.watchlist': 'Watchlist',
+  'filters.include': 'Only detect',
+  'filters.exclude': 'Ignore',
+  'filters.watchlistHint': 'While the watchlist is on, only these are announced. Everything else is still shown on screen, and warnings are always spoken.',
+  'filters.includeClassesHint': 'If any are ticked, nothing else is detected at all.',
+  'filters.excludeClassesHint': 'These are never detected, shown or announced.',
+  'filters.search': 'Search objects...',
+  'filters.clear': 'Clear',
+  'filters.selected': { one: '{count} selected', other: '{count} selected' },
+
+  'speechSettings.open': 'Voice',
+  'speechSettings.openAria': 'Speech voice, speed and volume settings',
+  'speechSettings.title': 'Speech Settings',
+  'speechSettings.description': 'Choose the voice and how fast it speaks. Settings are saved on this device.',
+  'speechSettings.voice': 'Voice',
+  'speechSettings.voiceAuto': 'Automatic',
+  'speechSettings.voiceAutoNamed': 'Automatic ({name})',
+  'speechSettings.otherLanguages': 'Other languages',
+  'speechSettings.noVoices': 'No voices are installed; the browser default will be used.',
+  'speechSettings.rate': 'Rate',
+  'speechSettings.pitch': 'Pitch',
+  'speechSettings.volume': 'Volume',
+  'speechSettings.preview': 'Preview',
+  'speechSettings.previewText': 'This is how BlindVision will sound. A chair on your left, about 2 metres away.',
+  'speechSettings.reset': 'Reset to default',
+
+  'catalog.open': 'Descriptions',
+  'catalog.openAria': 'Edit object descriptions',
+  'catalog.title': 'Object Descriptions',
+  'catalog.description': 'Customize how each object is announced. Changes are saved on this device.',
+  'catalog.search': 'Search objects',
+  'catalog.edited': 'edited',
+  'catalog.staleOverrides': 'Some edits were written for an earlier version of these descriptions. Check them, then confirm.',
+  'catalog.confirmOverrides': 'Keep my edits',
+  'catalog.choose': 'Choose an object to edit its wording.',
+  'catalog.name': 'Name',
+  'catalog.plural': 'Plural name',
+  'catalog.short': 'Short name',
+  'catalog.shortHint': 'Used in short announcements, e.g. "your blue mug".',
+  'catalog.long': 'Detailed description',
+  'catalog.synonyms': 'Other names (comma separated)',
+  'catalog.save': 'Save',
+  'catalog.reset': 'Reset to default',
+
+  'category.person': 'person',
+  'category.vehicle': 'vehicle',
+  'category.street': 'street',
+  'category.animal': 'animal',
+  'category.accessory': 'accessory',
+  'category.sports': 'sports',
+  'category.kitchen': 'kitchen',
+  'category.food': 'food',
+  'category.furniture': 'furniture',
+  'category.electronics': 'electronics',
+  'category.appliance': 'appliance',
+  'category.household': 'household',
+  'category.other': 'other',
+  'hazardLevel.info': 'info',
+  'hazardLevel.caution': 'caution',
+  'hazardLevel.danger': 'danger',
+};
+
+export default en;
@@ -0,0 +1,303 @@
+import type { Messages } from '@/lib/i18n/translator';
+
+const hi: Messages = {
+  'app.tagline': 'दृष्टिबाधित लोगों के लिए आवाज़ मार्गदर्शन के साथ रियल-टाइम वस्तु पहचान',
+  'language.label': 'भाषा',
+
+  'toast.modelLoading.title': 'AI मॉडल लोड हो रहा है',
+  'toast.modelLoading.description': '{name} वस्तु पहचान मॉडल शुरू हो रहा है...',
+  'toast.modelReady.title': 'AI मॉडल तैयार है',
+  'toast.modelReady.description': 'वस्तु पहचान अब उपलब्ध है!',
+  'toast.modelReady.descriptionWithMode': 'वस्तु पहचान अब उपलब्ध है, {mode} पर चल रही है।',
+  'toast.modelFailed.title': 'मॉडल लोड नहीं हो सका',
+  'toast.modelFailed.description': 'AI मॉडल न ग्राफ़िक्स कार्ड पर लोड हुआ, न प्रोसेसर पर। कृपया अपना कनेक्शन जाँचें।',
+  'toast.cameraStarted.title': 'कैमरा चालू हुआ',
+  'toast.cameraStarted.description': 'वीडियो अब सक्रिय है',
+  'toast.cameraError.title': 'कैमरा त्रुटि',
+  'toast.cameraError.description': 'कैमरा उपलब्ध नहीं है। कृपया अनुमतियाँ जाँचें।',
+  'toast.cameraStopped.title': 'कैमरा बंद हुआ',
+  'toast.cameraStopped.description': 'वीडियो बंद कर दिया गया है',
+  'toast.profilesImported.title': 'प्रोफ़ाइल आयात हुईं',
+  'toast.profilesImported.description': 'आपकी सेटिंग प्रोफ़ाइल फ़ाइल से वापस लाई गईं।',
+  'toast.profilesImportFailed.title': 'आयात विफल',
+  'toast.profilesImportFailed.description': 'यह फ़ाइल BlindVision सेटिंग का निर्यात नहीं है।',
+
+  'speech.modelReady': 'BlindVision मॉडल तैयार है। अब आप वस्तु पहचान शुरू कर सकते हैं।',
+  'speech.modelReadyWithMode': 'BlindVision मॉडल तैयार है और {mode} पर चल रहा है। अब आप वस्तु पहचान शुरू कर सकते हैं।',
+  'speech.modelFailed': 'AI मॉडल लोड नहीं हो सका। कृपया अपना कनेक्शन जाँचें।',
+  'speech.cameraStarted': 'कैमरा चालू हो गया। अब आप वस्तु पहचान शुरू कर सकते हैं।',
+  'speech.cameraError': 'कैमरा उपलब्ध नहीं है। कृपया कैमरे की अनुमतियाँ जाँचें।',
+  'speech.cameraStopped': 'कैमरा बंद हो गया।',
+  'speech.resuming': 'वस्तु पहचान फिर से शुरू हो रही है।',
+  'speech.detectionStarted': 'वस्तु पहचान शुरू हो गई। मैं आपको बताऊँगा कि आपके आसपास क्या है।',
+  'speech.detectionStopped': 'वस्तु पहचान बंद हो गई।',
+  'speech.srModeOn': 'स्क्रीन रीडर मोड चालू। घोषणाएँ आपके स्क्रीन रीडर को जाएँगी।',
+  'speech.srModeOff': 'स्क्रीन रीडर मोड बंद। घोषणाएँ बोलकर सुनाई जाएँगी।',
+  'speech.profileChanged': 'प्रोफ़ाइल: {name}।',
+  'speech.watchlistOn': 'निगरानी सूची चालू। केवल {items} की घोषणा होगी।',
+  'speech.watchlistEmpty': 'निगरानी सूची चालू है, पर ख़ाली है। केवल चेतावनियाँ बोली जाएँगी।',
+  'speech.watchlistOff': 'निगरानी सूची बंद। सब कुछ घोषित होगा।',
+  'speech.earconsOn': 'ध्वनि संकेत चालू।',
+  'speech.earconsOff': 'ध्वनि संकेत बंद।',
+  'speech.audioDisabled': 'आवाज़ बंद',
+  'speech.audioEnabled': 'आवाज़ चालू',
+  'speech.verbosityChanged': 'घोषणाएँ: {level}',
+
+  'mode.webgpu-fp16': 'ग्राफ़िक्स कार्ड, तेज़ मोड',
+  'mode.webgpu-fp32': 'ग्राफ़िक्स कार्ड, पूर्ण सटीकता',
+  'mode.wasm-q8': 'केवल प्रोसेसर, धीमा मोड',
+
+  'position.left': 'आपकी बाईं ओर',
+  'position.ahead': 'ठीक सामने',
+  'position.right': 'आपकी दाईं ओर',
+  'position.clock': 'आपकी {hour} बजे की दिशा में',
+  'position.low': '{direction}, नीचे',
+  'position.high': '{direction}, ऊपर',
+  'position.withDistance': '{position}, {distance}',
+  'side.left': 'बाएँ',
+  'side.ahead': 'सामने',
+  'side.right': 'दाएँ',
+  'distance.underOneMetre': 'एक मीटर से कम दूर',
+  'distance.about': { one: 'लगभग {count} मीटर दूर', other: 'लगभग {count} मीटर दूर' },
+  'distance.within': { one: '{count} मीटर के भीतर', other: '{count} मीटर के भीतर' },
+
+  'hazard.approaching': '{name} पास आ रहा है, {side}',
+  'hazard.approachingFast': '{name} तेज़ी से पास आ रहा है, {side}',
+
+  'announce.labels': '{labels}।',
+  'announce.short': '{location} {name} है।',
+  'announce.detailedOne': '{location}: {description}',
+  'announce.danger': 'ख़तरा! {announcement}',
+
+  'summary.clause': '{where} {items}',
+  'summary.separator': '; ',
+  'summary.sentence': '{clauses}।',
+  'summary.count': '{count} {name}',
+  'summary.overflow': 'साथ ही {items}',
+  'summary.more': { one: '{count} और वस्तु', other: '{count} और वस्तुएँ' },
+  'summary.category.person': { one: 'एक व्यक्ति', other: '{count} व्यक्ति' },
+  'summary.category.vehicle': { one: 'एक वाहन', other: '{count} वाहन' },
+  'summary.category.street': { one: 'सड़क की एक चीज़', other: 'सड़क की {count} चीज़ें' },
+  'summary.category.animal': { one: 'एक जानवर', other: '{count} जानवर' },
+  'summary.category.accessory': { one: 'एक सामान', other: '{count} सामान' },
+  'summary.category.sports': { one: 'खेल का एक सामान', other: 'खेल के {count} सामान' },
+  'summary.category.kitchen': { one: 'रसोई की एक चीज़', other: 'रसोई की {count} चीज़ें' },
+  'summary.category.food': { one: 'खाने की एक चीज़', other: 'खाने की {count} चीज़ें' },
+  'summary.category.furniture': { one: 'फ़र्नीचर की एक चीज़', other: 'फ़र्नीचर की {count} चीज़ें' },
+  'summary.category.electronics': { one: 'एक इलेक्ट्रॉनिक उपकरण', other: '{count} इलेक्ट्रॉनिक उपकरण' },
+  'summary.category.appliance': { one: 'एक उपकरण', other: '{count} उपकरण' },
+  'summary.category.household': { one: 'घर की एक चीज़', other: 'घर की {count} चीज़ें' },
+  'summary.category.other': { one: 'एक वस्तु', other: '{count} वस्तुएँ' },
+
+  'list.separator': ', ',
+  'list.lastSeparator': ' और ',
+
+  'inventory.button': 'मेरे आसपास क्या है?',
+  'inventory.aria': 'अभी सामने की हर चीज़ बताएँ',
+  'inventory.notRunning': 'पहचान चालू नहीं है। शुरू करने के लिए स्पेसबार दबाएँ।',
+  'inventory.empty': 'अभी सामने कुछ नहीं है।',
+  'inventory.count': { one: 'सामने {count} वस्तु है।', other: 'सामने {count} वस्तुएँ हैं।' },
+  'inventory.group': '{where} {items} हैं।',
+  'inventory.groupWithDistance': '{where} {items} हैं, सबसे पास वाली {distance}।',
+
+  'verbosity.title': 'घोषणा का विवरण',
+  'verbosity.label': 'केवल नाम',
+  'verbosity.short': 'संक्षिप्त',
+  'verbosity.detailed': 'विस्तृत',
+
+  'status.loading': 'AI लोड हो रहा है...',
+  'status.ready': 'तैयार',
+  'status.scanning': 'स्कैन हो रहा है...',
+  'status.fps': '{fps} fps',
+  'status.speaking': 'बोल रहा है',
+  'status.queued': '({count} कतार में)',
+  'live.title': 'अभी की पहचान:',
+
+  'live.logLabel': 'घोषणाएँ',
+  'live.alertLabel': 'चेतावनियाँ',
+  'srMode.label': 'स्क्रीन रीडर मोड',
+  'srMode.enableAria': 'स्क्रीन रीडर मोड चालू करें: ऐप ख़ुद नहीं बोलेगा, घोषणाएँ आपके स्क्रीन रीडर को जाएँगी',
+  'srMode.disableAria': 'स्क्रीन रीडर मोड बंद करें और घोषणाएँ बोलकर सुनाएँ',
+  'detection.start': 'पहचान शुरू करें',
+  'detection.stop': 'पहचान रोकें',
+  'detection.loading': 'AI मॉडल लोड हो रहा है...',
+  'detection.startAria': 'वस्तु पहचान शुरू करें',
+  'detection.stopAria': 'वस्तु पहचान रोकें',
+  'audio.on': 'आवाज़ चालू',
+  'audio.off': 'आवाज़ बंद',
+  'audio.enableAria': 'आवाज़ चालू करें',
+  'audio.disableAria': 'आवाज़ बंद करें',
+  'earcons.on': 'ध्वनि संकेत चालू',
+  'earcons.off': 'ध्वनि संकेत बंद',
+  'earcons.enableAria': 'घोषणाओं से पहले दिशा वाले ध्वनि संकेत चालू करें',
+  'earcons.disableAria': 'दिशा वाले ध्वनि संकेत बंद करें',
+  'camera.start': 'कैमरा चालू करें',
+  'camera.stop': 'कैमरा बंद करें',
+  'boxes.show': 'बॉक्स दिखाएँ',
+  'boxes.hide': 'बॉक्स छिपाएँ',
+  'boxes.showAria': 'पहचान के बॉक्स दिखाएँ',
+  'boxes.hideAria': 'पहचान के बॉक्स छिपाएँ',
+  'resume.label': 'अभी फिर शुरू करें',
+  'resume.aria': 'प्रतीक्षा समय छोड़कर घोषणाएँ अभी फिर शुरू करें',
+  'direction.sides': 'बाएँ / दाएँ',
+  'direction.clock': 'घड़ी की दिशा',
+  'direction.useClockAria': 'घड़ी की दिशा में दिशाएँ बताएँ',
+  'direction.useSidesAria': 'बाएँ, सामने और दाएँ में दिशाएँ बताएँ',
+
+  'scanRate.label': 'लक्षित स्कैन दर',
+  'scanRate.value': '{fps} fps',
+  'scanRate.actual': '(वास्तविक {fps}, प्रति स्कैन {latency} ms)',
+  'fov.label': 'कैमरे का दृष्टि क्षेत्र',
+  'fov.value': '{degrees}° (दिशा और दूरी के लिए)',
+
+  'indicator.detection': 'पहचान',
+  'indicator.audio': 'आवाज़',
+  'indicator.camera': 'कैमरा',
+  'indicator.active': 'सक्रिय',
+  'indicator.inactive': 'निष्क्रिय',
+  'indicator.enabled': 'चालू',
+  'indicator.disabled': 'बंद',
+
+  'help.title': 'उपयोग कैसे करें',
+  'help.spaceKey': 'स्पेसबार:',
+  'help.space': 'वस्तु पहचान शुरू/बंद करें',
+  'help.mKey': 'M कुंजी:',
+  'help.m': 'आवाज़ चालू/बंद करें',
+  'help.rKey': 'R कुंजी:',
+  'help.r': 'घोषणाएँ अभी फिर शुरू करें और सामने की हर चीज़ दोबारा बताएँ',
+  'help.vKey': 'V कुंजी:',
+  'help.v': 'घोषणा का विवरण बदलें: केवल नाम, संक्षिप्त, विस्तृत',
+  'help.wKey': 'W कुंजी या वीडियो पर दो बार टैप:',
+  'help.w': 'मेरे आसपास क्या है? सामने की हर चीज़ बताएँ',
+  'help.lKey': 'L कुंजी:',
+  'help.l': 'आख़िरी घोषणा दोहराएँ',
+  'help.navKey': ', और . कुंजियाँ:',
+  'help.nav': 'पिछली घोषणाओं में आगे-पीछे जाएँ',
+  'help.eKey': 'E कुंजी:',
+  'help.e': 'ध्वनि संकेत चालू/बंद करें: हर वस्तु के लिए उसकी दिशा से आती एक छोटी ध्वनि। हेडफ़ोन के साथ सबसे अच्छा',
+  'help.fKey': 'F कुंजी:',
+  'help.f': 'निगरानी सूची चालू/बंद करें, ताकि केवल चुनी हुई वस्तुएँ सुनाई दें',
+  'help.pKey': 'P कुंजी:',
+  'help.p': 'अगली सेटिंग प्रोफ़ाइल पर जाएँ',
+  'help.sKey': 'S कुंजी:',
+  'help.s': 'स्क्रीन रीडर मोड चालू/बंद करें, NVDA, VoiceOver, TalkBack और ब्रेल डिस्प्ले के लिए',
+  'help.voiceGuideKey': 'आवाज़ मार्गदर्शन:',
+  'help.voiceGuide': 'वस्तुओं का विवरण तुरंत सुनें',
+  'help.tipKey': 'सुझाव:',
+  'help.tip': 'अच्छे परिणाम के लिए कैमरा वस्तुओं की ओर रखें',
+
+  'queue.title': 'बोलने की कतार',
+  'queue.aria': 'बोलने की कतार',
+  'queue.clear': 'साफ़ करें',
+  'queue.clearAria': 'बोलना रोकें और कतार साफ़ करें',
+  'queue.speaking': 'बोल रहा है: ',
+  'priority.critical': 'अति आवश्यक',
+  'priority.normal': 'सामान्य',
+  'priority.low': 'कम',
+
+  'history.title': 'घोषणाओं का इतिहास',
+  'history.previous': 'पिछली',
+  'history.previousAria': 'पिछली घोषणा सुनाएँ',
+  'history.repeat': 'आख़िरी दोहराएँ',
+  'history.repeatAria': 'आख़िरी घोषणा दोहराएँ',
+  'history.next': 'अगली',
+  'history.nextAria': 'अगली घोषणा सुनाएँ',
+  'history.clear': 'साफ़ करें',
+  'history.empty': 'अभी तक कोई घोषणा नहीं हुई है।',
+
+  'profiles.open': 'प्रोफ़ाइल: {name}',
+  'profiles.openAria': 'सेटिंग प्रोफ़ाइल। मौजूदा प्रोफ़ाइल: {name}',
+  'profiles.title': 'सेटिंग प्रोफ़ाइल',
+  'profiles.description': 'हर प्रोफ़ाइल ऑडियो, बॉक्स, स्कैन दर, दिशा, विवरण स्तर और दृश्य क्षेत्र याद रखती है। बदलाव इस डिवाइस पर सक्रिय प्रोफ़ाइल में सहेजे जाते हैं।',
+  'profiles.active': 'सक्रिय प्रोफ़ाइल',
+  'profiles.builtin.outdoor': 'बाहर टहलना',
+  'profiles.builtin.kitchen': 'रसोई',
+  'profiles.builtin.reading': 'पढ़ना',
+  'profiles.delete': 'हटाएँ',
+  'profiles.newName': 'नई प्रोफ़ाइल का नाम',
+  'profiles.create': 'नई के रूप में सहेजें',
+  'profiles.createHint': '{name} की सेटिंग से शुरू होती है।',
+  'profiles.transfer': 'बैकअप लें या दूसरे डिवाइस पर ले जाएँ',
+  'profiles.export': 'JSON निर्यात करें',
+  'profiles.import': 'JSON आयात करें',
+
+  'thresholds.open': 'पहचान',
+  'thresholds.openAria': 'पहचान विश्वास सेटिंग',
+  'thresholds.title': 'पहचान विश्वास',
+  'thresholds.description': 'जिन वस्तुओं के बारे में मॉडल इससे कम निश्चित है, उन्हें छोड़ दिया जाता है। ग़लत चेतावनियाँ घटाने के लिए बढ़ाएँ, ज़्यादा पकड़ने के लिए घटाएँ। सक्रिय प्रोफ़ाइल में सहेजा जाता है।',
+  'thresholds.global': 'सभी वस्तुएँ',
+  'thresholds.globalHint': 'हर उस वर्ग पर लागू जिसकी अपनी सीमा नहीं है।',
+  'thresholds.perClass': 'हर वस्तु की सीमा',
+  'thresholds.customCount': { one: '{count} बदली गई', other: '{count} बदली गईं' },
+  'thresholds.search': 'वस्तुएँ खोजें...',
+  'thresholds.customAria': '{name} के लिए अलग सीमा इस्तेमाल करें',
+  'thresholds.classAria': '{name} की सीमा',
+
+  'filters.open': 'फ़िल्टर',
+  'filters.openAria': 'वस्तु फ़िल्टर और निगरानी सूची',
+  'filters.title': 'वस्तु फ़िल्टर',
+  'filters.description': 'चुनें कि कौन-सी वस्तुएँ पहचानी जाएँ और किनकी घोषणा हो। सक्रिय प्रोफ़ाइल में सहेजा जाता है।',
+  'filters.watchlistActive': 'केवल निगरानी सूची की वस्तुओं की घोषणा करें',
+  'filters.watchlist': 'निगरानी सूची',
+  'filters.include': 'केवल पहचानें',
+  'filters.exclude': 'अनदेखा करें',
+  'filters.watchlistHint': 'निगरानी सूची चालू रहने पर केवल इनकी घोषणा होती है। बाक़ी सब स्क्रीन पर दिखता रहता है, और चेतावनियाँ हमेशा बोली जाती हैं।',
+  'filters.includeClassesHint': 'अगर कोई चुनी गई है, तो बाक़ी कुछ भी नहीं पहचाना जाएगा।',
+  'filters.excludeClassesHint': 'ये कभी पहचानी, दिखाई या घोषित नहीं की जातीं।',
+  'filters.search': 'वस्तुएँ खोजें...',
+  'filters.clear': 'साफ़ करें',
+  'filters.selected': { one: '{count} चुनी गई', other: '{count} चुनी गईं' },
+
+  'speechSettings.open': 'आवाज़',
+  'speechSettings.openAria': 'आवाज़, गति और वॉल्यूम की सेटिंग',
+  'speechSettings.title': 'बोलने की सेटिंग',
+  'speechSettings.description': 'आवाज़ और बोलने की गति चुनें। सेटिंग इसी डिवाइस पर सहेजी जाती हैं।',
+  'speechSettings.voice': 'आवाज़',
+  'speechSettings.voiceAuto': 'अपने आप',
+  'speechSettings.voiceAutoNamed': 'अपने आप ({name})',
+  'speechSettings.otherLanguages': 'अन्य भाषाएँ',
+  'speechSettings.noVoices': 'कोई आवाज़ इंस्टॉल नहीं है; ब्राउज़र की डिफ़ॉल्ट आवाज़ उपयोग होगी।',
+  'speechSettings.rate': 'गति',
+  'speechSettings.pitch': 'सुर',
+  'speechSettings.volume': 'वॉल्यूम',
+  'speechSettings.preview': 'सुनकर देखें',
+  'speechSettings.previewText': 'BlindVision ऐसे सुनाई देगा। आपकी बाईं ओर, लगभग 2 मीटर दूर एक कुर्सी है।',
+  'speechSettings.reset': 'मूल पर लौटाएँ',
+
+  'catalog.open': 'विवरण',
+  'catalog.openAria': 'वस्तुओं के विवरण बदलें',
+  'catalog.title': 'वस्तुओं के विवरण',
+  'catalog.description': 'तय करें कि हर वस्तु की घोषणा कैसे हो। बदलाव इसी डिवाइस पर सहेजे जाते हैं।',
+  'catalog.search': 'वस्तुएँ खोजें',
+  'catalog.edited': 'बदला गया',
+  'catalog.staleOverrides': 'कुछ बदलाव इन विवरणों के पुराने संस्करण के लिए किए गए थे। उन्हें जाँचें, फिर पुष्टि करें।',
+  'catalog.confirmOverrides': 'मेरे बदलाव रखें',
+  'catalog.choose': 'शब्द बदलने के लिए कोई वस्तु चुनें।',
+  'catalog.name': 'नाम',
+  'catalog.plural': 'बहुवचन नाम',
+  'catalog.short': 'छोटा नाम',
+  'catalog.shortHint': 'संक्षिप्त घोषणाओं में उपयोग होता है, जैसे "आपका नीला मग"।',
+  'catalog.long': 'विस्तृत विवरण',
+  'catalog.synonyms': 'दूसरे नाम (अल्पविराम से अलग करें)',
+  'catalog.save': 'सहेजें',
+  'catalog.reset': 'मूल पर लौटाएँ',
+
+  'category.person': 'व्यक्ति',
+  'category.vehicle': 'वाहन',
+  'category.street': 'सड़क',
+  'category.animal': 'जानवर',
+  'category.accessory': 'सामान',
+  'category.sports': 'खेल',
+  'category.kitchen': 'रसोई',
+  'category.food': 'भोजन',
+  'category.furniture': 'फ़र्नीचर',
+  'category.electronics': 'इलेक्ट्रॉनिक्स',
+  'category.appliance': 'उपकरण',
+  'category.household': 'घरेलू',
+  'category.other': 'अन्य',
+  'hazardLevel.info': 'जानकारी',
+  'hazardLevel.caution': 'सावधानी',
+  'hazardLevel.danger': 'खतरा',
+};
+
+export default hi;
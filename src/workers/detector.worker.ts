@@ -0,0 +1,44 @@
+import { createDetectorBackend } from '@/lib/detection/backends';
+import type { DetectorBackend } from '@/lib/detection/types';
+import type { WorkerRequest, WorkerResponse } from '@/lib/detection/worker-protocol';
+
+let backend: DetectorBackend | null = null;
+
+const reply = (response: WorkerResponse) => self.postMessage(response);
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+self.addEventListener('message', async (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case 'load': {
+      try {
+        await backend?.dispose();
+        backend = createDetectorBackend(request.config);
+        await backend.load();
+        reply({ type: 'loaded', capabilities: backend.capabilities });
+      } catch (error) {
+        console.error('Worker failed to load detector:', error);
+        backend = null;
+        reply({ type: 'load-error', message: errorMessage(error) });
+      }
+      break;
+    }
+
+    case 'detect': {
+      try {
+        if (!backend) {
+          throw new Error('Detector worker received a frame before load');
+        }
+        const detections = await backend.detect(request.frame);
+        reply({ type: 'result', id: request.id, detections });
+      } catch (error) {
+        reply({ type: 'detect-error', id: request.id, message: errorMessage(error) });
+      } finally {
+        request.frame.close();
+      }
+      break;
+    }
+  }
+});